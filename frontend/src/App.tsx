@@ -9,12 +9,15 @@ import {
   ResponsiveContainer,
   Legend,
 } from "recharts";
-import type { HistoryEntry, HealthResponse, StreamRecord, CheckApiResponse } from "./api";
+import type { Account, InstantHash, StreamLifecycle, HistoryEntry, HealthResponse, StreamRecord, StreamTiming, CheckApiResponse, Incident, TargetState, CdnHostStats } from "./api";
 import {
+  fetchAccounts,
   fetchStatusCurrent,
   fetchStatusHistory,
+  fetchCdn,
   fetchHealth,
   fetchCheckApi,
+  fetchIncidents,
 } from "./api";
 import "./App.css";
 
@@ -34,89 +37,28 @@ function formatDate(iso: string) {
   });
 }
 
-export interface Outage {
-  id: string;
-  type: "api" | "stream";
-  streamId?: string;
-  start: string;
-  end: string;
-  durationMs: number;
-}
-
-/** Derive outages from history: consecutive failures for API or each stream. */
-function computeOutages(entries: HistoryEntry[]): Outage[] {
-  const list: Outage[] = [];
-  const sorted = [...entries].sort(
-    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
-
-  function addOutage(
-    type: "api" | "stream",
-    streamId: string | undefined,
-    start: string,
-    end: string
-  ) {
-    const startMs = new Date(start).getTime();
-    const endMs = new Date(end).getTime();
-    if (endMs <= startMs) return;
-    list.push({
-      id: `${type}-${streamId ?? "api"}-${start}`,
-      type,
-      streamId,
-      start,
-      end,
-      durationMs: endMs - startMs,
-    });
-  }
-
-  // API outages
-  let apiOutageStart: string | null = null;
-  for (const e of sorted) {
-    const ok = e.api?.success ?? true;
-    if (!ok && !apiOutageStart) apiOutageStart = e.timestamp;
-    if (ok && apiOutageStart) {
-      addOutage("api", undefined, apiOutageStart, e.timestamp);
-      apiOutageStart = null;
-    }
-  }
-  if (apiOutageStart) {
-    const last = sorted[sorted.length - 1];
-    const stillDown = last && last.api?.success === false;
-    const end = stillDown ? new Date().toISOString() : (last?.timestamp ?? apiOutageStart);
-    addOutage("api", undefined, apiOutageStart, end);
-  }
+/** Number of incidents shown in "Latest outages". */
+const OUTAGES_LIMIT = 20;
 
-  // Stream outages (per stream)
-  const streamIds = new Set<string>();
-  for (const e of sorted) {
-    if (e.streams) for (const id of Object.keys(e.streams)) streamIds.add(id);
-  }
-  for (const streamId of streamIds) {
-    let start: string | null = null;
-    for (const e of sorted) {
-      const s = e.streams?.[streamId];
-      const ok = s?.success ?? true;
-      if (!ok && !start) start = e.timestamp;
-      if (ok && start) {
-        addOutage("stream", streamId, start, e.timestamp);
-        start = null;
-      }
-    }
-    if (start) {
-      const last = sorted[sorted.length - 1];
-      const stillDown = last && last.streams?.[streamId]?.success === false;
-      const end = stillDown ? new Date().toISOString() : (last?.timestamp ?? start);
-      addOutage("stream", streamId, start, end);
-    }
-  }
+/** Uptime status for a bucket: up, down, flapping, or no data. */
+type BucketStatus = "up" | "down" | "flapping" | "none";
 
-  list.sort((a, b) => new Date(b.start).getTime() - new Date(a.start).getTime());
-  return list.slice(0, 20);
+/**
+ * Worst derived state among the records of a bucket (records without a state fall back to success).
+ * Unsupported checks count as no data.
+ */
+function bucketStatus(
+  records: ({ success: boolean; state?: TargetState; unsupported?: boolean } | undefined)[]
+): BucketStatus {
+  const states = records
+    .filter((r) => r != null)
+    .filter((r) => !r.unsupported)
+    .map((r) => r.state ?? (r.success ? "up" : "down"));
+  if (states.includes("down")) return "down";
+  if (states.includes("flapping")) return "flapping";
+  return states.length > 0 ? "up" : "none";
 }
 
-/** Uptime status for a bucket: up, down, or no data. */
-type BucketStatus = "up" | "down" | "none";
-
 export interface UptimeBucket {
   key: string;
   label: string;
@@ -141,20 +83,10 @@ function buildUptimeGridHours(
       const t = new Date(e.timestamp).getTime();
       return t >= hourStart.getTime() && t < hourEnd.getTime();
     });
-    const apiStatus: BucketStatus =
-      hourEntries.some((e) => e.api?.success === false)
-        ? "down"
-        : hourEntries.some((e) => e.api?.success === true)
-          ? "up"
-          : "none";
+    const apiStatus = bucketStatus(hourEntries.map((e) => e.api));
     const streams: Record<string, BucketStatus> = {};
     for (const id of streamIds) {
-      const withStream = hourEntries.filter((e) => e.streams?.[id] != null);
-      streams[id] = withStream.some((e) => e.streams?.[id]?.success === false)
-        ? "down"
-        : withStream.some((e) => e.streams?.[id]?.success === true)
-          ? "up"
-          : "none";
+      streams[id] = bucketStatus(hourEntries.map((e) => e.streams?.[id]));
     }
     const label = hourStart.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
     buckets.push({
@@ -180,6 +112,35 @@ function formatUptime(ms: number) {
   return `${s}s`;
 }
 
+/** One-line breakdown of a TTFB, e.g. "DNS 4 ms · connect 12 ms · TLS 30 ms · first byte 80 ms · 1.2.3.4". */
+function timingSummary(t: StreamTiming) {
+  const parts = [
+    t.dnsMs != null && `DNS ${t.dnsMs} ms`,
+    t.connectMs != null && `connect ${t.connectMs} ms`,
+    t.tlsMs != null && `TLS ${t.tlsMs} ms`,
+    `first byte ${t.firstByteMs} ms`,
+    t.redirects > 0 && `${t.redirects} redirects ${t.redirectMs} ms`,
+    t.remoteAddress,
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
+
+/** Step timings of a lifecycle check, e.g. "add_magnet 320 ms · select_files 150 ms · … · delete 90 ms". */
+function lifecycleSummary(l: StreamLifecycle) {
+  return l.steps.map((s) => `${s.step} ${s.durationMs} ms${s.success ? "" : " (failed)"}`).join(" · ");
+}
+
+/** One line per hash, e.g. "abc123…: rd (2 variants)" or "abc123…: not available". */
+function instantSummary(hashes: InstantHash[]) {
+  return hashes
+    .map((h) => {
+      const name = `${h.hash.slice(0, 8)}…`;
+      if (!h.available) return `${name}: not available`;
+      return `${name}: ${h.hosts.join(", ")} (${h.variants.length} variants)`;
+    })
+    .join("\n");
+}
+
 function CurrentStatus({
   entry,
   onCheckApi,
@@ -210,6 +171,9 @@ function CurrentStatus({
           <span className={`badge ${api.success ? "ok" : "fail"}`}>
             API {api.success ? "OK" : "Fail"}
           </span>
+          {api.state && api.state !== (api.success ? "up" : "down") && (
+            <span className="muted"> ({api.state})</span>
+          )}
           {api.responseTimeMs != null && (
             <span className="muted"> {api.responseTimeMs} ms</span>
           )}
@@ -238,13 +202,27 @@ function CurrentStatus({
         {streamIds.map((id) => {
           const s = streams[id] as StreamRecord;
           const ok = s?.success;
+          const retries = s?.attempts?.filter((a) => a.attempt > 1).length ?? 0;
+          if (s?.unsupported) {
+            return (
+              <div key={id} className="stream-row">
+                <span className="badge unsupported">{id}</span>
+                <span className="muted">unsupported (endpoint disabled by Real-Debrid)</span>
+              </div>
+            );
+          }
           return (
             <div key={id} className="stream-row">
               <span className={`badge ${ok ? "ok" : "fail"}`}>{id}</span>
+              {s?.state && s.state !== (ok ? "up" : "down") && (
+                <span className="muted">({s.state}) </span>
+              )}
               {ok ? (
                 <>
                   {s.ttfbMs != null && (
-                    <span className="muted">TTFB {s.ttfbMs} ms</span>
+                    <span className="muted" title={s.timing && timingSummary(s.timing)}>
+                      TTFB {s.ttfbMs} ms
+                    </span>
                   )}
                   {s.cdnHost && (
                     <span className="muted"> · {s.cdnHost}</span>
@@ -255,6 +233,36 @@ function CurrentStatus({
                   {s?.failureStep ?? s?.errorType ?? "failed"}
                 </span>
               )}
+              {s?.throughput && (
+                <span className={ok ? "muted" : "error"}>
+                  {" "}
+                  · {s.throughput.mbps} Mbps
+                  {s.throughput.targetMbps != null && ` (target ${s.throughput.targetMbps})`}
+                  {s.throughput.stalls > 0 && `, ${s.throughput.stalls} stalls`}
+                </span>
+              )}
+              {s?.lifecycle && (
+                <span
+                  className={s.lifecycle.deleted || !s.lifecycle.itemId ? "muted" : "error"}
+                  title={lifecycleSummary(s.lifecycle)}
+                >
+                  {" "}
+                  · lifecycle {s.lifecycle.steps.reduce((sum, step) => sum + step.durationMs, 0)} ms
+                  {!s.lifecycle.deleted && s.lifecycle.itemId && " (not deleted)"}
+                </span>
+              )}
+              {s?.instant && (
+                <span className={ok ? "muted" : "error"} title={instantSummary(s.instant)}>
+                  {" "}
+                  · {s.instant.filter((h) => h.available).length}/{s.instant.length} instant
+                </span>
+              )}
+              {s?.seek?.coldRangeStall && (
+                <span className="error"> · slow seek ({s.seek.maxLatencyMs} ms)</span>
+              )}
+              {retries > 0 && (
+                <span className="muted"> · {retries} {retries === 1 ? "retry" : "retries"}</span>
+              )}
             </div>
           );
         })}
@@ -263,8 +271,9 @@ function CurrentStatus({
   );
 }
 
-function Health({ health }: { health: HealthResponse | null }) {
+function Health({ health, account }: { health: HealthResponse | null; account?: string }) {
   if (!health) return null;
+  const rd = account ? health.realDebrid?.accounts[account] : undefined;
   return (
     <section className="card health">
       <h2>Service health</h2>
@@ -273,6 +282,18 @@ function Health({ health }: { health: HealthResponse | null }) {
         <dd>{formatUptime(health.uptimeMs)}</dd>
         <dt>Last run</dt>
         <dd>{health.lastRun ? formatTime(health.lastRun) : "—"}</dd>
+        {rd?.lastRunCalls && (
+          <>
+            <dt>API calls (last run)</dt>
+            <dd>{rd.lastRunCalls.total}</dd>
+          </>
+        )}
+        {rd?.backoffUntil && (
+          <>
+            <dt>Rate limited until</dt>
+            <dd className="error">{formatTime(rd.backoffUntil)}</dd>
+          </>
+        )}
         {health.lastError && (
           <>
             <dt>Last error</dt>
@@ -405,6 +426,10 @@ function UptimeGrid({ entries, streamIds }: { entries: HistoryEntry[]; streamIds
           <span className="uptime-cell uptime-cell--down" />
           Outage
         </span>
+        <span className="uptime-legend-item">
+          <span className="uptime-cell uptime-cell--flapping" />
+          Flapping
+        </span>
         <span className="uptime-legend-item">
           <span className="uptime-cell uptime-cell--none" />
           No data
@@ -414,29 +439,75 @@ function UptimeGrid({ entries, streamIds }: { entries: HistoryEntry[]; streamIds
   );
 }
 
-function OutagesList({ outages }: { outages: Outage[] }) {
+function OutagesList({ outages }: { outages: Incident[] }) {
   if (!outages.length) return <p className="muted">No recorded outages.</p>;
   return (
     <ul className="outages-list">
-      {outages.map((o) => (
-        <li key={o.id} className="outage-item">
-          <span className="outage-service">
-            {o.type === "api" ? "API" : o.streamId}
-          </span>
-          <span className="outage-time">
-            {formatDate(o.start)} · {formatTime(o.start)} – {formatTime(o.end)}
-          </span>
-          <span className="outage-duration">{formatUptime(o.durationMs)}</span>
-        </li>
-      ))}
+      {outages.map((o) => {
+        const cause = o.dominantFailureStep ?? o.dominantErrorType;
+        return (
+          <li key={o.id} className="outage-item">
+            <span className="outage-service">
+              {o.kind === "api" ? "API" : o.target}
+            </span>
+            <span className="outage-time">
+              {formatDate(o.start)} · {formatTime(o.start)} – {o.end ? formatTime(o.end) : "ongoing"}
+              {cause && ` · ${cause}`}
+            </span>
+            <span className="outage-duration">{formatUptime(o.durationMs)}</span>
+          </li>
+        );
+      })}
     </ul>
   );
 }
 
+/** Success ratio below which a CDN host row is highlighted. */
+const CDN_UNHEALTHY_RATIO = 0.95;
+
+function CdnTable({ hosts }: { hosts: CdnHostStats[] }) {
+  if (!hosts.length) return <p className="muted">No CDN hosts seen yet.</p>;
+  return (
+    <div className="cdn-table-wrap">
+      <table className="cdn-table">
+        <thead>
+          <tr>
+            <th>Host</th>
+            <th>Checks</th>
+            <th>Success</th>
+            <th>TTFB p50</th>
+            <th>TTFB p95</th>
+            <th>First seen</th>
+            <th>Last seen</th>
+          </tr>
+        </thead>
+        <tbody>
+          {hosts.map((h) => (
+            <tr key={h.host} className={h.successRatio < CDN_UNHEALTHY_RATIO ? "cdn-row--unhealthy" : undefined}>
+              <td className="cdn-host" title={h.streams.join(", ")}>{h.host}</td>
+              <td>{h.checks}</td>
+              <td>{(h.successRatio * 100).toFixed(1)}%</td>
+              <td>{h.ttfbMs ? `${Math.round(h.ttfbMs.p50)} ms` : "—"}</td>
+              <td>{h.ttfbMs ? `${Math.round(h.ttfbMs.p95)} ms` : "—"}</td>
+              <td className="muted">{formatDate(h.firstSeen)} {formatTime(h.firstSeen)}</td>
+              <td className="muted">{formatDate(h.lastSeen)} {formatTime(h.lastSeen)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 export default function App() {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  /** Selected account; undefined until picked, which the API treats as the first configured one. */
+  const [account, setAccount] = useState<string | undefined>(undefined);
   const [current, setCurrent] = useState<HistoryEntry | null>(null);
   const [health, setHealth] = useState<HealthResponse | null>(null);
   const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [outages, setOutages] = useState<Incident[]>([]);
+  const [cdnHosts, setCdnHosts] = useState<CdnHostStats[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [checkApiLoading, setCheckApiLoading] = useState(false);
@@ -448,7 +519,7 @@ export default function App() {
     setCheckApiResult(null);
     setCheckApiError(null);
     try {
-      const result = await fetchCheckApi();
+      const result = await fetchCheckApi(account);
       setCheckApiResult(result);
     } catch (e) {
       setCheckApiError(e instanceof Error ? e.message : String(e));
@@ -457,33 +528,38 @@ export default function App() {
     }
   };
 
-  const load = async () => {
-    setError(null);
-    try {
-      const [cur, h, hist] = await Promise.all([
-        fetchStatusCurrent().catch(() => null),
-        fetchHealth(),
-        fetchStatusHistory().catch(() => []),
-      ]);
-      setCurrent(cur ?? null);
-      setHealth(h);
-      const raw = Array.isArray(hist) ? (hist as HistoryEntry[]) : [];
-      setHistoryEntries(raw.slice(-MAX_CHART_POINTS));
-    } catch (e) {
-      setError(e instanceof Error ? e.message : String(e));
-    } finally {
-      setLoading(false);
-    }
-  };
-
   useEffect(() => {
+    const load = async () => {
+      setError(null);
+      try {
+        const accs = await fetchAccounts().catch(() => []);
+        const selected = account ?? accs[0]?.name;
+        const [cur, h, hist, inc, cdn] = await Promise.all([
+          fetchStatusCurrent(selected).catch(() => null),
+          fetchHealth(),
+          fetchStatusHistory({ account: selected }).catch(() => []),
+          fetchIncidents({ limit: OUTAGES_LIMIT, account: selected }).catch(() => []),
+          fetchCdn(selected).catch(() => []),
+        ]);
+        setAccounts(accs);
+        setCurrent(cur ?? null);
+        setHealth(h);
+        const raw = Array.isArray(hist) ? (hist as HistoryEntry[]) : [];
+        setHistoryEntries(raw.slice(-MAX_CHART_POINTS));
+        setOutages(inc);
+        setCdnHosts(cdn);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        setLoading(false);
+      }
+    };
     load();
     const t = setInterval(load, 30_000);
     return () => clearInterval(t);
-  }, []);
+  }, [account]);
 
   const streamIds = current?.streams ? Object.keys(current.streams) : [];
-  const outages = useMemo(() => computeOutages(historyEntries), [historyEntries]);
 
   if (loading) return <div className="app"><p className="muted">Loading…</p></div>;
 
@@ -498,6 +574,26 @@ export default function App() {
             real-debrid.com
           </a>
         </p>
+        {accounts.length > 1 && (
+          <label className="account-select">
+            Account{" "}
+            <select
+              value={account ?? accounts[0].name}
+              onChange={(e) => {
+                setCheckApiResult(null);
+                setCheckApiError(null);
+                setAccount(e.target.value);
+              }}
+            >
+              {accounts.map((a) => (
+                <option key={a.name} value={a.name}>
+                  {a.name}
+                  {a.apiKeySet ? "" : " (no API key)"}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
       </header>
       {error && (
         <div className="card error-banner">
@@ -512,7 +608,7 @@ export default function App() {
           checkApiResult={checkApiResult}
           checkApiError={checkApiError}
         />
-        <Health health={health} />
+        <Health health={health} account={account ?? accounts[0]?.name} />
       </div>
       <section className="card">
         <h2>Uptime</h2>
@@ -523,6 +619,11 @@ export default function App() {
         <h2>Latest outages</h2>
         <OutagesList outages={outages} />
       </section>
+      <section className="card">
+        <h2>CDN hosts</h2>
+        <p className="meta">Last 24 hours · worst success rate first</p>
+        <CdnTable hosts={cdnHosts} />
+      </section>
       <section className="card">
         <h2>History — TTFB by stream</h2>
         <HistoryChartAll entries={historyEntries} streamIds={streamIds} />
@@ -4,11 +4,84 @@
 
 const API = ""; // same origin
 
+/** Derived state after confirmation thresholds and flap detection. */
+export type TargetState = "up" | "down" | "flapping";
+
 export interface ApiRecord {
   success: boolean;
   responseTimeMs: number;
   httpStatus: number;
   error?: string;
+  /** Checked during a maintenance window (not counted in uptime). */
+  maintenance?: boolean;
+  state?: TargetState;
+}
+
+/** One try of a stream check step; retries have attempt > 1. */
+export interface StreamAttempt {
+  step: "list" | "info" | "unrestrict" | "head" | "instant";
+  attempt: number;
+  success: boolean;
+  durationMs: number;
+  httpStatus?: number;
+  error?: string;
+}
+
+/** Connection phases of the CDN HEAD (last redirect hop); phases that did not happen are missing. */
+export interface StreamTiming {
+  dnsMs?: number;
+  connectMs?: number;
+  tlsMs?: number;
+  firstByteMs: number;
+  redirectMs: number;
+  redirects: number;
+  remoteAddress?: string;
+}
+
+/** Throughput mode sample (streams with `throughput` or `targetMbps`). */
+export interface StreamThroughput {
+  bytes: number;
+  durationMs: number;
+  mbps: number;
+  timeToFirstMbMs?: number;
+  stalls: number;
+  stalledMs: number;
+  targetMbps?: number;
+}
+
+/** Seek probe results (streams with `seek`). */
+export interface StreamSeek {
+  fileSize: number;
+  probes: {
+    position: "middle" | "end" | "random";
+    offset: number;
+    latencyMs: number;
+    httpStatus: number;
+    ok: boolean;
+  }[];
+  maxLatencyMs: number;
+  coldRangeStall: boolean;
+}
+
+/** Lifecycle check (streams of type "lifecycle"): timed steps from add to delete. */
+export interface StreamLifecycle {
+  itemId?: string;
+  steps: {
+    step: "add_magnet" | "select_files" | "wait_links" | "unrestrict" | "head" | "delete";
+    success: boolean;
+    durationMs: number;
+    httpStatus?: number;
+  }[];
+  /** False when the item could not be deleted (removed at the next startup). */
+  deleted: boolean;
+}
+
+/** Instant availability of one hash (streams of type "instant"). */
+export interface InstantHash {
+  hash: string;
+  available: boolean;
+  hosts: string[];
+  variants: { host: string; fileIds: number[]; bytes: number }[];
 }
 
 export interface StreamRecord {
@@ -19,10 +92,22 @@ export interface StreamRecord {
   cdnHost?: string;
   errorType?: string;
   failureStep?: string;
+  maintenance?: boolean;
+  state?: TargetState;
+  attempts?: StreamAttempt[];
+  timing?: StreamTiming;
+  throughput?: StreamThroughput;
+  seek?: StreamSeek;
+  lifecycle?: StreamLifecycle;
+  instant?: InstantHash[];
+  /** Endpoint disabled by Real-Debrid: neither up nor down. */
+  unsupported?: boolean;
 }
 
 export interface HistoryEntry {
   timestamp: string;
+  /** Account that ran the check; missing on entries from before accounts existed ("default"). */
+  account?: string;
   api?: ApiRecord;
   streams?: Record<string, StreamRecord>;
 }
@@ -32,9 +117,43 @@ export interface HealthResponse {
   startTime: string | null;
   lastRun: string | null;
   lastError: string | null;
+  /** Real-Debrid rate limiter and API call counts, by account (each API key has its own limiter). */
+  realDebrid?: {
+    limitPerMinute: number;
+    accounts: Record<
+      string,
+      {
+        tokens: number;
+        backoffUntil: string | null;
+        endpoints: Record<string, { calls: number; rateLimited: number; throttled: number }>;
+        lastRunCalls: { total: number; byEndpoint: Record<string, number> } | null;
+      }
+    >;
+  };
+}
+
+/** Server-side outage record: opened on the first failed check, resolved on the first success. */
+export interface Incident {
+  id: number;
+  account?: string;
+  kind: "api" | "stream";
+  target: string;
+  status: "open" | "resolved";
+  start: string;
+  end: string | null;
+  durationMs: number;
+  lastFailureAt: string;
+  failedChecks: number;
+  failureSteps: Record<string, number>;
+  errorTypes: Record<string, number>;
+  dominantFailureStep?: string;
+  dominantErrorType?: string;
+  cdnHosts: string[];
+  lastError?: string;
 }
 
 export interface CheckApiResponse {
+  account: string;
   success: boolean;
   responseTimeMs: number;
   httpStatus: number;
@@ -55,16 +174,42 @@ async function get<T>(path: string): Promise<T> {
   }
 }
 
-export async function fetchStatusCurrent(): Promise<HistoryEntry> {
-  return get<HistoryEntry>("/status/current");
+/** Newest record of each target; `checkedAt` maps "api" and stream ids to their own check time. */
+export interface CurrentEntry extends HistoryEntry {
+  checkedAt?: Record<string, string>;
+}
+
+/** Configured Real-Debrid account from GET /accounts (the key itself is never returned). */
+export interface Account {
+  name: string;
+  apiKeyEnv: string;
+  apiKeySet: boolean;
+  apiCheck: boolean;
+  streams: string[];
+}
+
+/** Query string for an optional `account=` filter. */
+function accountQuery(account?: string): string {
+  return account ? `?account=${encodeURIComponent(account)}` : "";
+}
+
+export async function fetchAccounts(): Promise<Account[]> {
+  return get<Account[]>("/accounts");
+}
+
+/** Latest checks of one account; without `account`, the first configured one. */
+export async function fetchStatusCurrent(account?: string): Promise<CurrentEntry> {
+  return get<CurrentEntry>(`/status/current${accountQuery(account)}`);
 }
 
 export async function fetchStatusHistory(params?: {
   from?: string;
   to?: string;
   streamId?: string;
-}): Promise<HistoryEntry[] | Array<{ timestamp: string } & StreamRecord>> {
+  account?: string;
+}): Promise<HistoryEntry[] | Array<{ timestamp: string; account: string } & StreamRecord>> {
   const sp = new URLSearchParams();
+  if (params?.account) sp.set("account", params.account);
   if (params?.from) sp.set("from", params.from);
   if (params?.to) sp.set("to", params.to);
   if (params?.streamId) sp.set("streamId", params.streamId);
@@ -72,12 +217,45 @@ export async function fetchStatusHistory(params?: {
   return get(`/status/history${q ? `?${q}` : ""}`);
 }
 
+export async function fetchIncidents(params?: {
+  status?: "open" | "resolved";
+  streamId?: string;
+  limit?: number;
+  account?: string;
+}): Promise<Incident[]> {
+  const sp = new URLSearchParams();
+  if (params?.account) sp.set("account", params.account);
+  if (params?.status) sp.set("status", params.status);
+  if (params?.streamId) sp.set("streamId", params.streamId);
+  if (params?.limit) sp.set("limit", String(params.limit));
+  const q = sp.toString();
+  return get<Incident[]>(`/incidents${q ? `?${q}` : ""}`);
+}
+
+/** Stream checks of one CDN host in the /cdn window (last 24h by default); worst success ratio first. */
+export interface CdnHostStats {
+  host: string;
+  checks: number;
+  successes: number;
+  failures: number;
+  successRatio: number;
+  failuresByStep: Record<string, number>;
+  ttfbMs: { count: number; p50: number; p90: number; p95: number; p99: number } | null;
+  streams: string[];
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export async function fetchCdn(account?: string): Promise<CdnHostStats[]> {
+  return get<CdnHostStats[]>(`/cdn${accountQuery(account)}`);
+}
+
 export async function fetchHealth(): Promise<HealthResponse> {
   return get<HealthResponse>("/health");
 }
 
-export async function fetchCheckApi(): Promise<CheckApiResponse> {
-  const res = await fetch(`${API}/status/check`, { method: "POST" });
+export async function fetchCheckApi(account?: string): Promise<CheckApiResponse> {
+  const res = await fetch(`${API}/status/check${accountQuery(account)}`, { method: "POST" });
   const text = await res.text();
   if (!res.ok) throw new Error(`${res.status}: ${text}`);
   try {
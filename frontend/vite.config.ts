@@ -9,6 +9,9 @@ export default defineConfig({
       '/status': 'http://localhost:3000',
       '/health': 'http://localhost:3000',
       '/cache': 'http://localhost:3000',
+      '/incidents': 'http://localhost:3000',
+      '/cdn': 'http://localhost:3000',
+      '/accounts': 'http://localhost:3000',
     },
   },
 })
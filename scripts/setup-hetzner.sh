@@ -64,11 +64,11 @@ if ! command -v node &>/dev/null; then
       curl -fsSL https://deb.nodesource.com/setup_20.x | sudo -E bash -
       sudo apt-get install -y nodejs
     else
-      echo "Unsupported OS: $ID. Install Node 18+ manually and re-run."
+      echo "Unsupported OS: $ID. Install Node 20+ manually and re-run."
       exit 1
     fi
   else
-    echo "Cannot detect OS. Install Node 18+ and re-run."
+    echo "Cannot detect OS. Install Node 20+ and re-run."
     exit 1
   fi
 else
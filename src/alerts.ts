@@ -0,0 +1,263 @@
+/**
+ * Alert rules engine: rules from the streams.json `alerts` section are evaluated after each check.
+ * Each rule is either firing or resolved; state is persisted to alerts.json in the data directory. Windowed
+ * latency rules read recent records from memory, seeded once from storage, so checks never re-read history.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import {
+  getDataFilePath,
+  getStreamsConfig,
+  type AlertMetric,
+  type AlertRule,
+} from "./config.js";
+import { summarize } from "./stats.js";
+import { iterate, type HistoryEntry } from "./storage.js";
+import { entryTargets, isCounted, targetKey, type TargetRecord } from "./targets.js";
+
+export interface AlertState {
+  ruleId: string;
+  rule: AlertRule;
+  status: "firing" | "resolved";
+  /** When the rule last started firing. */
+  firedAt: string;
+  resolvedAt: string | null;
+  lastEvaluatedAt: string;
+  /** Value that breached (latency rules) or the failure streak (consecutive_failures). */
+  value: number;
+  message: string;
+}
+
+/** A rule that started firing or resolved during one evaluation. */
+export interface AlertTransition {
+  alert: AlertState;
+  change: "fired" | "resolved";
+}
+
+interface AlertFile {
+  states: AlertState[];
+  /** consecutive_failures streaks by rule id, then by target qualified with its account (see targetKey). */
+  streaks: Record<string, Record<string, number>>;
+}
+
+interface Evaluation {
+  breached: boolean;
+  value: number;
+  message: string;
+}
+
+let store: AlertFile | null = null;
+
+/**
+ * Entries arrive slightly out of order (jobs on different schedules finish at different times), so recent
+ * records are kept this much longer than the longest window.
+ */
+const RECENT_SLACK_MS = 60 * 60_000;
+
+/** Counted records of recent checks for windowed rules: `recentWindowMs` plus slack back from `newestMs`. */
+let recent: { ms: number; target: TargetRecord }[] = [];
+let recentWindowMs = 0;
+let newestMs = -Infinity;
+
+function filePath(): string {
+  return getDataFilePath("alerts.json");
+}
+
+function load(): AlertFile {
+  if (store) return store;
+  const path = filePath();
+  store = { states: [], streaks: {} };
+  if (existsSync(path)) {
+    try {
+      const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<AlertFile>;
+      if (Array.isArray(parsed.states)) store.states = parsed.states;
+      if (parsed.streaks && typeof parsed.streaks === "object") {
+        // Streaks written per rule only (before accounts) are dropped; they restart from the next check.
+        for (const [id, byTarget] of Object.entries(parsed.streaks)) {
+          if (byTarget && typeof byTarget === "object") store.streaks[id] = byTarget;
+        }
+      }
+    } catch {
+      // unreadable file: start fresh rather than fail checks
+    }
+  }
+  return store;
+}
+
+function save(file: AlertFile): void {
+  const path = filePath();
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(file), "utf-8");
+  renameSync(tmpPath, path);
+}
+
+function metricValue(t: TargetRecord, metric: AlertMetric): number | undefined {
+  if (metric === "ttfbMs") return t.ttfbMs;
+  if (metric === "responseTimeMs") return t.kind === "api" ? t.responseTimeMs : undefined;
+  return t.kind === "stream" ? t.responseTimeMs : undefined;
+}
+
+function matches(rule: Extract<AlertRule, { type: "latency" }>, t: TargetRecord): boolean {
+  if (rule.account && t.account !== rule.account) return false;
+  if (rule.target && t.target !== rule.target) return false;
+  if (rule.cdnHost && !t.cdnHost?.includes(rule.cdnHost)) return false;
+  return true;
+}
+
+function describe(rule: AlertRule): string {
+  if (rule.type === "consecutive_failures") {
+    return `${rule.account ? `${rule.account}/` : ""}${rule.target} failed ${rule.count} checks in a row`;
+  }
+  const scope = [
+    rule.account && `account ${rule.account}`,
+    rule.target ?? "any target",
+    rule.cdnHost && `cdnHost ~ ${rule.cdnHost}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+  const stat = rule.stat === "last" ? rule.metric : `${rule.stat}(${rule.metric}) over ${rule.windowMinutes}m`;
+  return `${stat} above ${rule.above} (${scope})`;
+}
+
+/**
+ * Add a stored entry to the recent records and drop those older than the longest window (`windowMs`). Storage
+ * is read only when the records do not reach back far enough: on the first windowed check, or after a rule's
+ * window grew.
+ */
+function noteRecent(entry: HistoryEntry, windowMs: number): void {
+  const ms = new Date(entry.timestamp).getTime();
+  newestMs = Math.max(newestMs, ms);
+  if (windowMs > recentWindowMs) {
+    recent = [];
+    const from = new Date(newestMs - windowMs - RECENT_SLACK_MS).toISOString();
+    for (const e of iterate({ from })) {
+      const eMs = new Date(e.timestamp).getTime();
+      for (const t of entryTargets(e)) if (isCounted(t)) recent.push({ ms: eMs, target: t });
+    }
+  } else {
+    for (const t of entryTargets(entry)) if (isCounted(t)) recent.push({ ms, target: t });
+    const keepFromMs = newestMs - windowMs - RECENT_SLACK_MS;
+    recent = recent.filter((r) => r.ms >= keepFromMs);
+  }
+  recentWindowMs = windowMs;
+}
+
+/** Window length of a windowed latency rule, or null for other rules. */
+function ruleWindowMs(rule: AlertRule): number | null {
+  if (rule.type !== "latency" || rule.stat === "last") return null;
+  return (rule.windowMinutes ?? 0) * 60_000;
+}
+
+/** Returns null when the rule has no data for this check, which leaves its state unchanged. */
+function evaluate(rule: AlertRule, entry: HistoryEntry, file: AlertFile): Evaluation | null {
+  const targets = entryTargets(entry).filter(isCounted);
+  if (rule.type === "consecutive_failures") {
+    const matching = targets.filter(
+      (r) => r.target === rule.target && (!rule.account || r.account === rule.account)
+    );
+    if (matching.length === 0) return null;
+    // One streak per account, so checks of one account never reset or extend another's.
+    const streaks = (file.streaks[rule.id] ??= {});
+    for (const t of matching) {
+      const key = targetKey(t.account, t.target);
+      streaks[key] = t.success ? 0 : (streaks[key] ?? 0) + 1;
+    }
+    // The rule fires while any account's streak is long enough, reporting the longest one.
+    const breaching = Object.keys(streaks).filter((key) => streaks[key] >= rule.count);
+    const value = Math.max(0, ...Object.values(streaks));
+    const message =
+      rule.account || breaching.length === 0
+        ? describe(rule)
+        : `${describe(rule)} (${breaching.join(", ")})`;
+    return { breached: breaching.length > 0, value, message };
+  }
+
+  let values: number[];
+  if (rule.stat === "last") {
+    values = targets
+      .filter((t) => matches(rule, t))
+      .map((t) => metricValue(t, rule.metric))
+      .filter((v): v is number => v != null);
+  } else {
+    const toMs = new Date(entry.timestamp).getTime();
+    const fromMs = toMs - (ruleWindowMs(rule) ?? 0);
+    values = [];
+    for (const { ms, target } of recent) {
+      if (ms < fromMs || ms > toMs || !matches(rule, target)) continue;
+      const v = metricValue(target, rule.metric);
+      if (v != null) values.push(v);
+    }
+  }
+  if (values.length === 0) return null;
+  const value = rule.stat === "last" ? Math.max(...values) : summarize(values)[rule.stat];
+  return { breached: value > rule.above, value, message: describe(rule) };
+}
+
+/**
+ * Evaluate every configured rule against a completed check and return the rules that changed state.
+ * Never throws.
+ */
+export function evaluateAlerts(entry: HistoryEntry): AlertTransition[] {
+  const transitions: AlertTransition[] = [];
+  try {
+    const file = load();
+    const rules = getStreamsConfig().alerts;
+    const windows = rules.map(ruleWindowMs).filter((ms): ms is number => ms != null);
+    if (windows.length > 0) {
+      noteRecent(entry, Math.max(...windows));
+    } else {
+      recent = [];
+      recentWindowMs = 0;
+    }
+    for (const rule of rules) {
+      const result = evaluate(rule, entry, file);
+      if (!result) continue;
+      let state = file.states.find((s) => s.ruleId === rule.id);
+      if (result.breached && state?.status !== "firing") {
+        state = {
+          ruleId: rule.id,
+          rule,
+          status: "firing",
+          firedAt: entry.timestamp,
+          resolvedAt: null,
+          lastEvaluatedAt: entry.timestamp,
+          value: result.value,
+          message: result.message,
+        };
+        file.states = [...file.states.filter((s) => s.ruleId !== rule.id), state];
+        transitions.push({ alert: state, change: "fired" });
+        console.log(JSON.stringify({ msg: "alert_fired", rule: rule.id, value: result.value }));
+      } else if (!result.breached && state?.status === "firing") {
+        state.status = "resolved";
+        state.resolvedAt = entry.timestamp;
+        transitions.push({ alert: state, change: "resolved" });
+        console.log(JSON.stringify({ msg: "alert_resolved", rule: rule.id, value: result.value }));
+      }
+      if (state) {
+        state.rule = rule;
+        state.lastEvaluatedAt = entry.timestamp;
+        state.value = result.value;
+        state.message = result.message;
+      }
+    }
+    // Drop state for rules removed from config.
+    const ids = new Set(rules.map((r) => r.id));
+    file.states = file.states.filter((s) => ids.has(s.ruleId));
+    for (const id of Object.keys(file.streaks)) if (!ids.has(id)) delete file.streaks[id];
+    save(file);
+  } catch (err) {
+    console.log(
+      JSON.stringify({
+        msg: "alert_error",
+        error: err instanceof Error ? err.message : String(err),
+      })
+    );
+  }
+  return transitions;
+}
+
+/** Alert states, optionally only firing or only resolved ones. */
+export function listAlerts(status?: AlertState["status"]): AlertState[] {
+  const states = load().states;
+  return status ? states.filter((s) => s.status === status) : [...states];
+}
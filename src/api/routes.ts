@@ -1,49 +1,366 @@
 /**
- * HTTP API routes: /status/current, /status/history, /health, /cache.
+ * HTTP API routes: /accounts, /status/current, /status/history, /status/rollups, /status/uptime, /status/stats,
+ * /status/export, /status/import, /cdn, /incidents, /alerts, /notify/test, /maintenance, /silences, /health, /metrics, /cache.
  */
 
-import { readAll, append, type HistoryEntry, type ApiRecord } from "../storage.js";
-import { getSchedulerState } from "../scheduler.js";
-import { getApiKey } from "../config.js";
-import { getCacheList, getInstantAvailabilityRaw, checkUser } from "../rdClient.js";
+import {
+  latestPerTarget,
+  query,
+  readRollups,
+  entryAccount,
+  type HistoryEntry,
+  type ApiRecord,
+} from "../storage.js";
+import { presentRollup } from "../rollups.js";
+import { exportLines } from "../export.js";
+import { importHistory } from "../importer.js";
+import { renderMetrics } from "../metrics.js";
+import { getSinkStatus } from "../sinks.js";
+import { getIncident, listIncidents } from "../incidents.js";
+import { UPTIME_WINDOWS, uptimeReport, type UptimeWindow } from "../uptime.js";
+import { latencyStats } from "../stats.js";
+import { cdnStats } from "../cdn.js";
+import { listAlerts } from "../alerts.js";
+import { CHANNEL_NAMES, getChannelNames, sendTestNotification } from "../notify.js";
+import {
+  createSilence,
+  deleteSilence,
+  listMaintenance,
+  listSilences,
+} from "../maintenance.js";
+import { getSchedulerState, recordCheck } from "../scheduler.js";
+import { getAccount, getAccountApiKey, getStreamsConfig, type AccountConfig } from "../config.js";
+import {
+  getCacheList,
+  getInstantAvailabilityRaw,
+  checkUser,
+  getRdClientStatus,
+} from "../rdClient.js";
 
-export function handleStatusCurrent(): { status: number; body: string } {
-  const entries = readAll();
-  const latest = entries.length > 0 ? entries[entries.length - 1] : null;
-  if (!latest) {
+/** Configured account by name (the first one when no name is given), or a 404 response. */
+function resolveAccount(
+  name: string | undefined
+): { account: AccountConfig } | { status: number; body: string } {
+  const account = getAccount(name);
+  if (!account) {
+    return { status: 404, body: JSON.stringify({ error: `unknown account ${name}` }) };
+  }
+  return { account };
+}
+
+/** 404 response for an `account=` filter naming an account that is not configured, else null. */
+function unknownAccount(name: string | undefined): { status: number; body: string } | null {
+  if (name === undefined || getAccount(name)) return null;
+  return { status: 404, body: JSON.stringify({ error: `unknown account ${name}` }) };
+}
+
+/** GET /accounts — configured accounts with their targets and whether their key is set (never the key). */
+export function handleAccounts(): { status: number; body: string } {
+  const accounts = getStreamsConfig().accounts.map((a) => ({
+    name: a.name,
+    apiKeyEnv: a.apiKeyEnv,
+    apiKeySet: getAccountApiKey(a) !== undefined,
+    apiCheck: a.apiCheck,
+    streams: a.streams.map((s) => s.id),
+  }));
+  return { status: 200, body: JSON.stringify(accounts) };
+}
+
+/** GET /status/current?account= — latest record per target of one account (default: the first). */
+export function handleStatusCurrent(account?: string): { status: number; body: string } {
+  const resolved = resolveAccount(account);
+  if (!("account" in resolved)) return resolved;
+  const entry = latestPerTarget(resolved.account.name);
+  if (!entry) {
     return { status: 404, body: JSON.stringify({ error: "no data yet" }) };
   }
-  return { status: 200, body: JSON.stringify(latest) };
+  return { status: 200, body: JSON.stringify(entry) };
 }
 
 export function handleStatusHistory(
   from?: string,
   to?: string,
-  streamId?: string
+  streamId?: string,
+  account?: string
 ): { status: number; body: string } {
-  let entries = readAll();
-  if (from) {
-    const t = new Date(from).getTime();
-    if (!Number.isNaN(t)) entries = entries.filter((e) => new Date(e.timestamp).getTime() >= t);
-  }
-  if (to) {
-    const t = new Date(to).getTime();
-    if (!Number.isNaN(t)) entries = entries.filter((e) => new Date(e.timestamp).getTime() <= t);
-  }
+  const unknown = unknownAccount(account);
+  if (unknown) return unknown;
+  const entries = query({ from, to, streamId, account });
   if (streamId && streamId.trim()) {
-    const points = entries
-      .filter((e) => e.streams?.[streamId])
-      .map((e) => ({ timestamp: e.timestamp, ...e.streams![streamId] }));
+    const points = entries.map((e) => ({
+      timestamp: e.timestamp,
+      account: entryAccount(e),
+      ...e.streams![streamId],
+    }));
     return { status: 200, body: JSON.stringify(points) };
   }
   return { status: 200, body: JSON.stringify(entries) };
 }
 
-/** POST /status/check — run API availability test on demand and append to history. */
-export async function handleCheckApi(): Promise<{ status: number; body: string }> {
-  const token = getApiKey();
+/** GET /status/rollups?resolution=hour|day — downsampled history kept beyond the raw retention window. */
+export function handleStatusRollups(
+  resolution: string | undefined,
+  from?: string,
+  to?: string,
+  streamId?: string,
+  account?: string
+): { status: number; body: string } {
+  if (resolution !== "hour" && resolution !== "day") {
+    return {
+      status: 400,
+      body: JSON.stringify({ error: "Query param resolution= must be hour or day" }),
+    };
+  }
+  const unknown = unknownAccount(account);
+  if (unknown) return unknown;
+  const rollups = readRollups(resolution, { from, to, streamId, account });
+  return { status: 200, body: JSON.stringify(rollups.map(presentRollup)) };
+}
+
+/** GET /status/uptime?window=24h|7d|30d&streamId=&sla=&account= — success ratio, downtime and SLA per target. */
+export function handleStatusUptime(
+  window: string | undefined,
+  streamId?: string,
+  sla?: string,
+  account?: string
+): { status: number; body: string } {
+  const win = window ?? "24h";
+  if (!Object.hasOwn(UPTIME_WINDOWS, win)) {
+    return {
+      status: 400,
+      body: JSON.stringify({ error: "Query param window= must be 24h, 7d or 30d" }),
+    };
+  }
+  const target = sla !== undefined ? Number(sla) : undefined;
+  if (target !== undefined && !(target > 0 && target <= 100)) {
+    return {
+      status: 400,
+      body: JSON.stringify({ error: "Query param sla= must be a percentage in (0, 100]" }),
+    };
+  }
+  const unknown = unknownAccount(account);
+  if (unknown) return unknown;
+  const report = uptimeReport(win as UptimeWindow, streamId, target, account);
+  return { status: 200, body: JSON.stringify(report) };
+}
+
+const BUCKET_UNITS_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/** GET /status/stats?from=&to=&streamId=&bucket=15m|1h|1d&account= — latency percentiles, mean and stddev per target. */
+export function handleStatusStats(
+  from?: string,
+  to?: string,
+  streamId?: string,
+  bucket?: string,
+  account?: string
+): { status: number; body: string } {
+  let bucketMs: number | undefined;
+  if (bucket !== undefined) {
+    const m = /^(\d+)([mhd])$/.exec(bucket.trim());
+    bucketMs = m ? parseInt(m[1], 10) * BUCKET_UNITS_MS[m[2]] : 0;
+    if (!bucketMs) {
+      return {
+        status: 400,
+        body: JSON.stringify({ error: "Query param bucket= must be a duration like 15m, 1h or 1d" }),
+      };
+    }
+  }
+  const unknown = unknownAccount(account);
+  if (unknown) return unknown;
+  const stats = latencyStats({ from, to, streamId, account }, bucketMs);
+  return { status: 200, body: JSON.stringify(stats) };
+}
+
+/** Window of GET /cdn when no `from` is given. */
+const CDN_DEFAULT_WINDOW_MS = 24 * 3_600_000;
+
+/** GET /cdn?from=&to=&account= — checks, success ratio, TTFB percentiles and first/last seen per CDN host (default: last 24h). */
+export function handleCdn(from?: string, to?: string, account?: string): { status: number; body: string } {
+  const unknown = unknownAccount(account);
+  if (unknown) return unknown;
+  const since = from ?? new Date(Date.now() - CDN_DEFAULT_WINDOW_MS).toISOString();
+  return { status: 200, body: JSON.stringify(cdnStats({ from: since, to, account })) };
+}
+
+/**
+ * GET /status/export?format=csv|ndjson — flattened history with the /status/history filters.
+ * Returns lines lazily so the server can stream large ranges.
+ */
+export function handleStatusExport(
+  format: string | undefined,
+  from?: string,
+  to?: string,
+  streamId?: string,
+  account?: string
+):
+  | { status: number; body: string }
+  | { status: number; contentType: string; filename: string; lines: Iterable<string> } {
+  const fmt = format ?? "csv";
+  if (fmt !== "csv" && fmt !== "ndjson") {
+    return {
+      status: 400,
+      body: JSON.stringify({ error: "Query param format= must be csv or ndjson" }),
+    };
+  }
+  const unknown = unknownAccount(account);
+  if (unknown) return unknown;
+  return {
+    status: 200,
+    contentType: fmt === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson",
+    filename: `history.${fmt}`,
+    lines: exportLines(fmt, { from, to, streamId, account }),
+  };
+}
+
+/** POST /status/import — merge an NDJSON history file (one HistoryEntry per line) into storage. */
+export function handleStatusImport(ndjson: string): { status: number; body: string } {
+  if (!ndjson.trim()) {
+    return {
+      status: 400,
+      body: JSON.stringify({ error: "Request body must be NDJSON (one HistoryEntry per line)" }),
+    };
+  }
+  const report = importHistory(ndjson);
+  return { status: 200, body: JSON.stringify(report) };
+}
+
+/** GET /incidents?status=open|resolved&streamId=&from=&to=&limit=&account= — newest first. streamId=api selects API incidents. */
+export function handleIncidents(
+  status: string | undefined,
+  streamId?: string,
+  from?: string,
+  to?: string,
+  limit?: string,
+  account?: string
+): { status: number; body: string } {
+  if (status !== undefined && status !== "open" && status !== "resolved") {
+    return {
+      status: 400,
+      body: JSON.stringify({ error: "Query param status= must be open or resolved" }),
+    };
+  }
+  const n = limit !== undefined ? parseInt(limit, 10) : undefined;
+  if (n !== undefined && (!Number.isFinite(n) || n <= 0)) {
+    return {
+      status: 400,
+      body: JSON.stringify({ error: "Query param limit= must be a positive integer" }),
+    };
+  }
+  const unknown = unknownAccount(account);
+  if (unknown) return unknown;
+  const incidents = listIncidents({ status, account, target: streamId || undefined, from, to, limit: n });
+  return { status: 200, body: JSON.stringify(incidents) };
+}
+
+/** GET /incidents/:id */
+export function handleIncident(id: string): { status: number; body: string } {
+  const incident = /^\d+$/.test(id) ? getIncident(parseInt(id, 10)) : null;
+  if (!incident) {
+    return { status: 404, body: JSON.stringify({ error: "incident not found" }) };
+  }
+  return { status: 200, body: JSON.stringify(incident) };
+}
+
+/** GET /alerts?status=firing|resolved|all — alert rule states; active (firing) alerts by default. */
+export function handleAlerts(status: string | undefined): { status: number; body: string } {
+  const s = status ?? "firing";
+  if (s !== "firing" && s !== "resolved" && s !== "all") {
+    return {
+      status: 400,
+      body: JSON.stringify({ error: "Query param status= must be firing, resolved or all" }),
+    };
+  }
+  return { status: 200, body: JSON.stringify(listAlerts(s === "all" ? undefined : s)) };
+}
+
+/** POST /notify/test?channel= — send a test message to one configured channel and report the result. */
+export async function handleNotifyTest(
+  channel: string | undefined
+): Promise<{ status: number; body: string }> {
+  if (!channel || !(CHANNEL_NAMES as readonly string[]).includes(channel)) {
+    return {
+      status: 400,
+      body: JSON.stringify({ error: `Query param channel= must be one of ${CHANNEL_NAMES.join(", ")}` }),
+    };
+  }
+  if (!getChannelNames().includes(channel)) {
+    return {
+      status: 404,
+      body: JSON.stringify({ error: `channel ${channel} is not configured`, configured: getChannelNames() }),
+    };
+  }
+  const result = await sendTestNotification(channel);
+  return { status: result.ok ? 200 : 502, body: JSON.stringify({ channel, ...result }) };
+}
+
+/** GET /maintenance — configured windows (with current or next occurrence) and active or upcoming silences. */
+export function handleMaintenance(): { status: number; body: string } {
+  return {
+    status: 200,
+    body: JSON.stringify({ windows: listMaintenance(), silences: listSilences() }),
+  };
+}
+
+/** GET /silences — silences that have not ended yet. */
+export function handleSilences(): { status: number; body: string } {
+  return { status: 200, body: JSON.stringify(listSilences()) };
+}
+
+/**
+ * POST /silences — body `{ targets?, start?, end? | durationMinutes?, reason? }`.
+ * Starts now unless `start` is given; needs either `end` or `durationMinutes`.
+ */
+export function handleCreateSilence(json: string): { status: number; body: string } {
+  const bad = (error: string) => ({ status: 400, body: JSON.stringify({ error }) });
+  let input: Record<string, unknown>;
+  try {
+    input = JSON.parse(json) as Record<string, unknown>;
+  } catch {
+    return bad("Request body must be JSON");
+  }
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return bad("Request body must be a JSON object");
+  }
+  const { targets, reason, durationMinutes } = input;
+  if (
+    targets !== undefined &&
+    !(Array.isArray(targets) && targets.every((t) => typeof t === "string"))
+  ) {
+    return bad("targets must be an array of stream ids (or \"api\")");
+  }
+  if (reason !== undefined && typeof reason !== "string") return bad("reason must be a string");
+  const startMs = typeof input.start === "string" ? new Date(input.start).getTime() : Date.now();
+  let endMs = typeof input.end === "string" ? new Date(input.end).getTime() : NaN;
+  if (input.end === undefined && typeof durationMinutes === "number" && durationMinutes > 0) {
+    endMs = startMs + durationMinutes * 60_000;
+  }
+  if (Number.isNaN(startMs)) return bad("start must be an ISO timestamp");
+  if (Number.isNaN(endMs)) return bad("end (ISO timestamp) or durationMinutes (> 0) is required");
+  if (endMs <= startMs || endMs <= Date.now()) return bad("end must be after start and in the future");
+  const silence = createSilence({
+    ...(targets !== undefined && { targets: targets as string[] }),
+    start: new Date(startMs).toISOString(),
+    end: new Date(endMs).toISOString(),
+    ...(reason !== undefined && { reason: reason as string }),
+  });
+  return { status: 201, body: JSON.stringify(silence) };
+}
+
+/** DELETE /silences/:id */
+export function handleDeleteSilence(id: string): { status: number; body: string } {
+  if (!/^\d+$/.test(id) || !deleteSilence(parseInt(id, 10))) {
+    return { status: 404, body: JSON.stringify({ error: "silence not found" }) };
+  }
+  return { status: 200, body: JSON.stringify({ deleted: parseInt(id, 10) }) };
+}
+
+/** POST /status/check?account= — run API availability test on demand and append to history. */
+export async function handleCheckApi(account?: string): Promise<{ status: number; body: string }> {
+  const resolved = resolveAccount(account);
+  if (!("account" in resolved)) return resolved;
+  const token = getAccountApiKey(resolved.account);
   if (!token) {
-    return { status: 401, body: JSON.stringify({ error: "REAL_DEBRID_API_KEY not set" }) };
+    return { status: 401, body: JSON.stringify({ error: `${resolved.account.apiKeyEnv} not set` }) };
   }
   const result = await checkUser(token);
   const apiRecord: ApiRecord = {
@@ -54,11 +371,13 @@ export async function handleCheckApi(): Promise<{ status: number; body: string }
   };
   const entry: HistoryEntry = {
     timestamp: new Date().toISOString(),
+    account: resolved.account.name,
     api: apiRecord,
     streams: {},
   };
-  append(entry);
+  recordCheck(entry);
   const body = JSON.stringify({
+    account: resolved.account.name,
     success: result.success,
     responseTimeMs: result.responseTimeMs,
     httpStatus: result.httpStatus,
@@ -69,6 +388,7 @@ export async function handleCheckApi(): Promise<{ status: number; body: string }
 
 export function handleHealth(): { status: number; body: string } {
   const st = getSchedulerState();
+  const rd = getRdClientStatus();
   const uptimeMs = st.startTime
     ? Date.now() - new Date(st.startTime).getTime()
     : 0;
@@ -77,15 +397,32 @@ export function handleHealth(): { status: number; body: string } {
     startTime: st.startTime,
     lastRun: st.lastRun,
     lastError: st.lastError,
+    sinks: getSinkStatus(),
+    realDebrid: {
+      ...rd,
+      accounts: Object.fromEntries(
+        Object.entries(rd.accounts).map(([name, a]) => [
+          name,
+          { ...a, lastRunCalls: st.lastRunApiCalls[name] ?? null },
+        ])
+      ),
+    },
   });
   return { status: 200, body };
 }
 
-/** GET /cache — list cached items by hash so you can pick for streams.json. */
-export async function handleCacheList(): Promise<{ status: number; body: string }> {
-  const token = getApiKey();
+/** GET /metrics — Prometheus text exposition format. */
+export function handleMetrics(): { status: number; body: string } {
+  return { status: 200, body: renderMetrics() };
+}
+
+/** GET /cache?account= — list cached items by hash so you can pick for streams.json. */
+export async function handleCacheList(account?: string): Promise<{ status: number; body: string }> {
+  const resolved = resolveAccount(account);
+  if (!("account" in resolved)) return resolved;
+  const token = getAccountApiKey(resolved.account);
   if (!token) {
-    return { status: 401, body: JSON.stringify({ error: "REAL_DEBRID_API_KEY not set" }) };
+    return { status: 401, body: JSON.stringify({ error: `${resolved.account.apiKeyEnv} not set` }) };
   }
   const result = await getCacheList(token);
   if (!result.success) {
@@ -101,11 +438,16 @@ export async function handleCacheList(): Promise<{ status: number; body: string
   return { status: 200, body };
 }
 
-/** GET /cache/instant?hash=XXX — debug: raw instant-availability response for one hash. */
-export async function handleCacheInstant(hash: string): Promise<{ status: number; body: string }> {
-  const token = getApiKey();
+/** GET /cache/instant?hash=XXX&account= — debug: raw instant-availability response for one hash. */
+export async function handleCacheInstant(
+  hash: string,
+  account?: string
+): Promise<{ status: number; body: string }> {
+  const resolved = resolveAccount(account);
+  if (!("account" in resolved)) return resolved;
+  const token = getAccountApiKey(resolved.account);
   if (!token) {
-    return { status: 401, body: JSON.stringify({ error: "REAL_DEBRID_API_KEY not set" }) };
+    return { status: 401, body: JSON.stringify({ error: `${resolved.account.apiKeyEnv} not set` }) };
   }
   if (!hash || hash.length < 10) {
     return { status: 400, body: JSON.stringify({ error: "Query param hash= required (info hash)" }) };
@@ -2,16 +2,33 @@
  * HTTP server: API routes + static frontend from frontend/dist.
  */
 
-import { createServer } from "node:http";
+import { createServer, type IncomingMessage } from "node:http";
 import { readFileSync, existsSync } from "node:fs";
 import { join, normalize } from "node:path";
+import { Readable, pipeline } from "node:stream";
 import {
+  handleAccounts,
   handleStatusCurrent,
   handleStatusHistory,
+  handleStatusRollups,
+  handleStatusUptime,
+  handleStatusStats,
+  handleStatusExport,
+  handleCdn,
   handleHealth,
   handleCacheList,
   handleCacheInstant,
   handleCheckApi,
+  handleStatusImport,
+  handleMetrics,
+  handleIncidents,
+  handleIncident,
+  handleAlerts,
+  handleNotifyTest,
+  handleMaintenance,
+  handleSilences,
+  handleCreateSilence,
+  handleDeleteSilence,
 } from "./routes.js";
 import { getPort, getFrontendDistPath } from "../config.js";
 
@@ -27,6 +44,31 @@ const MIMES: Record<string, string> = {
   ".woff2": "font/woff2",
 };
 
+/** Largest accepted request body (history imports). */
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+/** Largest accepted JSON body for small API objects (silences). */
+const MAX_JSON_BODY_BYTES = 64 * 1024;
+
+class BodyTooLargeError extends Error {}
+
+function readBody(req: IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.destroy();
+        reject(new BodyTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
 export function createApiServer(): ReturnType<typeof createServer> {
   return createServer(async (req, res) => {
     const url = new URL(req.url ?? "/", `http://${req.headers.host}`);
@@ -40,7 +82,47 @@ export function createApiServer(): ReturnType<typeof createServer> {
 
     try {
       if (method === "POST" && path === "/status/check") {
-        const result = await handleCheckApi();
+        const result = await handleCheckApi(url.searchParams.get("account") ?? undefined);
+        send(result.status, result.body);
+        return;
+      }
+      if (method === "POST" && path === "/status/import") {
+        let body: string;
+        try {
+          body = await readBody(req, MAX_BODY_BYTES);
+        } catch (err) {
+          if (err instanceof BodyTooLargeError) {
+            send(413, JSON.stringify({ error: "Payload Too Large" }));
+            return;
+          }
+          throw err;
+        }
+        const result = handleStatusImport(body);
+        send(result.status, result.body);
+        return;
+      }
+      if (method === "POST" && path === "/notify/test") {
+        const result = await handleNotifyTest(url.searchParams.get("channel") ?? undefined);
+        send(result.status, result.body);
+        return;
+      }
+      if (method === "POST" && path === "/silences") {
+        let body: string;
+        try {
+          body = await readBody(req, MAX_JSON_BODY_BYTES);
+        } catch (err) {
+          if (err instanceof BodyTooLargeError) {
+            send(413, JSON.stringify({ error: "Payload Too Large" }));
+            return;
+          }
+          throw err;
+        }
+        const result = handleCreateSilence(body);
+        send(result.status, result.body);
+        return;
+      }
+      if (method === "DELETE" && path.startsWith("/silences/")) {
+        const result = handleDeleteSilence(path.slice("/silences/".length));
         send(result.status, result.body);
         return;
       }
@@ -49,8 +131,13 @@ export function createApiServer(): ReturnType<typeof createServer> {
         return;
       }
 
+      if (path === "/accounts") {
+        const { status, body } = handleAccounts();
+        send(status, body);
+        return;
+      }
       if (path === "/status/current") {
-        const { status, body } = handleStatusCurrent();
+        const { status, body } = handleStatusCurrent(url.searchParams.get("account") ?? undefined);
         send(status, body);
         return;
       }
@@ -58,23 +145,116 @@ export function createApiServer(): ReturnType<typeof createServer> {
         const from = url.searchParams.get("from") ?? undefined;
         const to = url.searchParams.get("to") ?? undefined;
         const streamId = url.searchParams.get("streamId") ?? undefined;
-        const { status, body } = handleStatusHistory(from, to, streamId);
+        const account = url.searchParams.get("account") ?? undefined;
+        const { status, body } = handleStatusHistory(from, to, streamId, account);
+        send(status, body);
+        return;
+      }
+      if (path === "/status/rollups") {
+        const resolution = url.searchParams.get("resolution") ?? undefined;
+        const from = url.searchParams.get("from") ?? undefined;
+        const to = url.searchParams.get("to") ?? undefined;
+        const streamId = url.searchParams.get("streamId") ?? undefined;
+        const account = url.searchParams.get("account") ?? undefined;
+        const { status, body } = handleStatusRollups(resolution, from, to, streamId, account);
+        send(status, body);
+        return;
+      }
+      if (path === "/status/uptime") {
+        const window = url.searchParams.get("window") ?? undefined;
+        const streamId = url.searchParams.get("streamId") ?? undefined;
+        const sla = url.searchParams.get("sla") ?? undefined;
+        const account = url.searchParams.get("account") ?? undefined;
+        const { status, body } = handleStatusUptime(window, streamId, sla, account);
+        send(status, body);
+        return;
+      }
+      if (path === "/status/stats") {
+        const from = url.searchParams.get("from") ?? undefined;
+        const to = url.searchParams.get("to") ?? undefined;
+        const streamId = url.searchParams.get("streamId") ?? undefined;
+        const bucket = url.searchParams.get("bucket") ?? undefined;
+        const account = url.searchParams.get("account") ?? undefined;
+        const { status, body } = handleStatusStats(from, to, streamId, bucket, account);
         send(status, body);
         return;
       }
+      if (path === "/status/export") {
+        const format = url.searchParams.get("format") ?? undefined;
+        const from = url.searchParams.get("from") ?? undefined;
+        const to = url.searchParams.get("to") ?? undefined;
+        const streamId = url.searchParams.get("streamId") ?? undefined;
+        const account = url.searchParams.get("account") ?? undefined;
+        const result = handleStatusExport(format, from, to, streamId, account);
+        if (!("lines" in result)) {
+          send(result.status, result.body);
+          return;
+        }
+        res.writeHead(result.status, {
+          "Content-Type": result.contentType,
+          "Content-Disposition": `attachment; filename="${result.filename}"`,
+        });
+        // pipeline destroys the source if the client disconnects, closing any open file handle.
+        pipeline(Readable.from(result.lines), res, () => {});
+        return;
+      }
+      if (path === "/cdn") {
+        const from = url.searchParams.get("from") ?? undefined;
+        const to = url.searchParams.get("to") ?? undefined;
+        const account = url.searchParams.get("account") ?? undefined;
+        const { status, body } = handleCdn(from, to, account);
+        send(status, body);
+        return;
+      }
+      if (path === "/incidents") {
+        const status = url.searchParams.get("status") ?? undefined;
+        const streamId = url.searchParams.get("streamId") ?? undefined;
+        const from = url.searchParams.get("from") ?? undefined;
+        const to = url.searchParams.get("to") ?? undefined;
+        const limit = url.searchParams.get("limit") ?? undefined;
+        const account = url.searchParams.get("account") ?? undefined;
+        const result = handleIncidents(status, streamId, from, to, limit, account);
+        send(result.status, result.body);
+        return;
+      }
+      if (path.startsWith("/incidents/")) {
+        const result = handleIncident(path.slice("/incidents/".length));
+        send(result.status, result.body);
+        return;
+      }
+      if (path === "/alerts") {
+        const result = handleAlerts(url.searchParams.get("status") ?? undefined);
+        send(result.status, result.body);
+        return;
+      }
+      if (path === "/maintenance") {
+        const result = handleMaintenance();
+        send(result.status, result.body);
+        return;
+      }
+      if (path === "/silences") {
+        const result = handleSilences();
+        send(result.status, result.body);
+        return;
+      }
       if (path === "/health") {
         const { status, body } = handleHealth();
         send(status, body);
         return;
       }
+      if (path === "/metrics") {
+        const { status, body } = handleMetrics();
+        send(status, body, "text/plain; version=0.0.4; charset=utf-8");
+        return;
+      }
       if (path === "/cache") {
-        const result = await handleCacheList();
+        const result = await handleCacheList(url.searchParams.get("account") ?? undefined);
         send(result.status, result.body);
         return;
       }
       if (path === "/cache/instant") {
         const hash = url.searchParams.get("hash") ?? "";
-        const result = await handleCacheInstant(hash);
+        const result = await handleCacheInstant(hash, url.searchParams.get("account") ?? undefined);
         send(result.status, result.body);
         return;
       }
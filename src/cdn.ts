@@ -0,0 +1,87 @@
+/**
+ * Per-CDN-host statistics: stream checks grouped by the edge host that served them, so a bad host shows up
+ * even while the streams it serves are fine on other hosts. Checks during maintenance windows are not counted.
+ */
+
+import { iterate, type HistoryQuery } from "./storage.js";
+import { percentile } from "./stats.js";
+import { entryTargets, isCounted, targetKey } from "./targets.js";
+
+export interface CdnHostStats {
+  host: string;
+  checks: number;
+  successes: number;
+  failures: number;
+  /** successes / checks. */
+  successRatio: number;
+  failuresByStep: Record<string, number>;
+  /** Percentiles of ttfbMs; null when no check on this host recorded one. */
+  ttfbMs: { count: number; p50: number; p90: number; p95: number; p99: number } | null;
+  /** Streams served from this host; account-qualified outside the default account (see targetKey). */
+  streams: string[];
+  firstSeen: string;
+  lastSeen: string;
+}
+
+/** Stream checks matching from/to and account grouped by cdnHost, worst success ratio first. */
+export function cdnStats(q: HistoryQuery): CdnHostStats[] {
+  const hosts = new Map<
+    string,
+    { stats: Omit<CdnHostStats, "ttfbMs" | "streams">; ttfb: number[]; streams: Set<string> }
+  >();
+  for (const entry of iterate({ from: q.from, to: q.to, account: q.account })) {
+    for (const t of entryTargets(entry)) {
+      if (t.kind !== "stream" || !t.cdnHost || !isCounted(t)) continue;
+      let h = hosts.get(t.cdnHost);
+      if (!h) {
+        h = {
+          stats: {
+            host: t.cdnHost,
+            checks: 0,
+            successes: 0,
+            failures: 0,
+            successRatio: 0,
+            failuresByStep: {},
+            firstSeen: entry.timestamp,
+            lastSeen: entry.timestamp,
+          },
+          ttfb: [],
+          streams: new Set(),
+        };
+        hosts.set(t.cdnHost, h);
+      }
+      const s = h.stats;
+      s.checks += 1;
+      if (t.success) {
+        s.successes += 1;
+      } else {
+        s.failures += 1;
+        const step = t.failureStep ?? "unknown";
+        s.failuresByStep[step] = (s.failuresByStep[step] ?? 0) + 1;
+      }
+      s.lastSeen = entry.timestamp;
+      if (t.ttfbMs != null && Number.isFinite(t.ttfbMs)) h.ttfb.push(t.ttfbMs);
+      h.streams.add(targetKey(t.account, t.target));
+    }
+  }
+
+  return [...hosts.values()]
+    .map(({ stats, ttfb, streams }) => {
+      const sorted = ttfb.sort((a, b) => a - b);
+      return {
+        ...stats,
+        successRatio: stats.successes / stats.checks,
+        ttfbMs: sorted.length
+          ? {
+              count: sorted.length,
+              p50: percentile(sorted, 50),
+              p90: percentile(sorted, 90),
+              p95: percentile(sorted, 95),
+              p99: percentile(sorted, 99),
+            }
+          : null,
+        streams: [...streams].sort(),
+      };
+    })
+    .sort((a, b) => a.successRatio - b.successRatio || a.host.localeCompare(b.host));
+}
@@ -3,28 +3,148 @@
  */
 
 import { readFileSync, existsSync } from "node:fs";
-import { resolve, dirname } from "node:path";
+import { resolve, dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
+import { parseCron } from "./cron.js";
+import { DEFAULT_ACCOUNT } from "./storage/query.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const projectRoot = resolve(__dirname, "..");
 
-export type StreamDef =
+/**
+ * When a target is checked: `cron` (5-field, see cron.ts) or `intervalSeconds`; neither means every
+ * CHECK_INTERVAL_SECONDS. `jitterSeconds` adds a random delay of up to that many seconds (default CHECK_JITTER_SECONDS).
+ */
+export interface CheckSchedule {
+  intervalSeconds?: number;
+  cron?: string;
+  jitterSeconds?: number;
+}
+
+/**
+ * Throughput mode: download up to `bytes` (default 20 MiB) or for up to `seconds` (default 10) and record
+ * sustained Mbps; gaps between chunks longer than `stallMs` (default 1000) count as stalls.
+ */
+export interface ThroughputDef {
+  bytes?: number;
+  seconds?: number;
+  stallMs?: number;
+}
+
+/**
+ * Seek probe: range requests in the middle, near the end and at `randomOffsets` (default 1) random positions.
+ * A range slower than `slowMs` (default 2000) while the head was faster is flagged as a cold-range stall.
+ */
+export interface SeekDef {
+  randomOffsets?: number;
+  slowMs?: number;
+}
+
+export type StreamDef = (
   | { id: string; type: "hash"; hash: string }
-  | { id: string; type: "download"; url: string };
+  | { id: string; type: "download"; url: string }
+  /** Instant availability of each hash; no link is unrestricted, so seek and throughput do not apply. */
+  | { id: string; type: "instant"; hashes: string[] }
+  /**
+   * Full add-magnet lifecycle: add, select all files, wait up to `waitSeconds` for links, unrestrict, HEAD, then
+   * always delete the item again.
+   */
+  | { id: string; type: "lifecycle"; hash: string; waitSeconds?: number }
+) &
+  CheckSchedule & {
+    throughput?: ThroughputDef;
+    seek?: SeekDef;
+    /** Bitrate the stream needs; enables throughput mode, and a slower download fails as throughput_too_slow. */
+    targetMbps?: number;
+  };
 
-export interface StreamsConfig {
+export type AlertMetric = "responseTimeMs" | "apiResponseTimeMs" | "ttfbMs";
+
+export type AlertStat = "last" | "mean" | "max" | "p50" | "p90" | "p95" | "p99";
+
+/**
+ * Alert rule from the streams.json `alerts` section. `target` is a stream id or "api"; omitted means any target.
+ * `account` limits the rule to one account's checks; omitted means every account.
+ * `cdnHost` matches records whose cdnHost contains the given text.
+ */
+export type AlertRule =
+  | { id: string; type: "consecutive_failures"; account?: string; target: string; count: number }
+  | {
+      id: string;
+      type: "latency";
+      account?: string;
+      target?: string;
+      cdnHost?: string;
+      metric: AlertMetric;
+      /** "last" checks the latest value(s); other stats are computed over windowMinutes. */
+      stat: AlertStat;
+      windowMinutes?: number;
+      above: number;
+    };
+
+/**
+ * Planned maintenance from the streams.json `maintenance` section: one-off (start/end) or recurring
+ * (cron + durationMinutes). `targets` lists stream ids and/or "api" (any account), or account-qualified names
+ * like "alice/tv"; omitted means every target.
+ */
+export type MaintenanceDef = { id: string; targets?: string[]; reason?: string } & (
+  | { start: string; end: string }
+  | { cron: string; durationMinutes: number }
+);
+
+/**
+ * Real-Debrid account with its own API key and targets. Without a streams.json `accounts` section, the top-level
+ * `apiCheck`, `apiSchedule` and `streams` form the "default" account keyed by REAL_DEBRID_API_KEY.
+ */
+export interface AccountConfig {
+  /** Letters, digits, "-" and "_". */
+  name: string;
+  /** Env var holding the API key (default REAL_DEBRID_API_KEY_<NAME>). */
+  apiKeyEnv: string;
   apiCheck: boolean;
+  /** Schedule of the API check (`apiSchedule`). */
+  apiSchedule: CheckSchedule;
   streams: StreamDef[];
 }
 
+export interface StreamsConfig {
+  /** At least one account. */
+  accounts: AccountConfig[];
+  alerts: AlertRule[];
+  maintenance: MaintenanceDef[];
+}
+
+export type StorageBackendName = "json" | "sqlite";
+
 const DEFAULT_STORAGE_PATH = "./data/history.json";
+const DEFAULT_SQLITE_PATH = "./data/history.db";
 const DEFAULT_CHECK_INTERVAL_SECONDS = 300;
 const DEFAULT_PORT = 3000;
+const DEFAULT_COMPACTION_INTERVAL_SECONDS = 3600;
+const DEFAULT_RAW_RETENTION_DAYS = 7;
+const DEFAULT_HOURLY_ROLLUP_RETENTION_DAYS = 90;
+const DEFAULT_DAILY_ROLLUP_RETENTION_DAYS = 365;
+const DEFAULT_SINK_BATCH_SIZE = 50;
+const DEFAULT_SINK_FLUSH_INTERVAL_SECONDS = 10;
+const DEFAULT_SINK_BUFFER_MAX_ENTRIES = 10_000;
+const DEFAULT_NOTIFY_REMINDER_MINUTES = 60;
+const DEFAULT_CONFIRM_DOWN_CHECKS = 1;
+const DEFAULT_CONFIRM_UP_CHECKS = 1;
+const DEFAULT_FLAP_WINDOW_CHECKS = 10;
+const DEFAULT_FLAP_THRESHOLD = 5;
+const DEFAULT_RETRY_ATTEMPTS = 2;
+const DEFAULT_RETRY_BACKOFF_MS = 1000;
+const DEFAULT_RETRY_BACKOFF_MAX_MS = 10_000;
+const DEFAULT_CHECK_JITTER_SECONDS = 0;
+const DEFAULT_STREAM_CONCURRENCY = 4;
+const DEFAULT_CHECK_DEADLINE_SECONDS = 120;
+const DEFAULT_RD_RATE_LIMIT_PER_MINUTE = 250;
+const DEFAULT_RD_RATE_LIMIT_BURST = 10;
+const DEFAULT_TELEGRAM_API_URL = "https://api.telegram.org";
 
-/** API key from env (required for running checks). */
-export function getApiKey(): string | undefined {
-  return process.env.REAL_DEBRID_API_KEY;
+/** API key of an account from env (required for running its checks). */
+export function getAccountApiKey(account: AccountConfig): string | undefined {
+  return process.env[account.apiKeyEnv] || undefined;
 }
 
 /** Check interval in seconds; reloadable at runtime. */
@@ -36,10 +156,237 @@ export function getCheckIntervalSeconds(): number {
   return n;
 }
 
+function resolveFromCwd(path: string): string {
+  return path.startsWith("/") ? path : resolve(process.cwd(), path);
+}
+
 /** Storage file path; resolved relative to process cwd. */
 export function getStoragePath(): string {
-  const path = process.env.STORAGE_PATH ?? DEFAULT_STORAGE_PATH;
-  return path.startsWith("/") ? path : resolve(process.cwd(), path);
+  return resolveFromCwd(process.env.STORAGE_PATH ?? DEFAULT_STORAGE_PATH);
+}
+
+/** Directory for state files next to the history (rollups, incidents, sink buffers). */
+export function getDataDir(): string {
+  return dirname(getStoragePath());
+}
+
+/** Path of a state file in the data directory. */
+export function getDataFilePath(name: string): string {
+  return join(getDataDir(), name);
+}
+
+/** Storage backend: "json" (NDJSON at STORAGE_PATH, default) or "sqlite" (database at SQLITE_PATH). */
+export function getStorageBackend(): StorageBackendName {
+  const raw = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+  return raw === "sqlite" ? "sqlite" : "json";
+}
+
+/** SQLite database path (STORAGE_BACKEND=sqlite); resolved relative to process cwd. */
+export function getSqlitePath(): string {
+  return resolveFromCwd(process.env.SQLITE_PATH ?? DEFAULT_SQLITE_PATH);
+}
+
+/** Positive integer from env, or the default when unset or invalid. */
+function positiveIntEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const n = parseInt(raw, 10);
+  if (!Number.isFinite(n) || n < 1) return fallback;
+  return n;
+}
+
+/** How often history is compacted (rolled up, old entries pruned); read at each run. */
+export function getCompactionIntervalSeconds(): number {
+  return positiveIntEnv("COMPACTION_INTERVAL_SECONDS", DEFAULT_COMPACTION_INTERVAL_SECONDS);
+}
+
+/** Days raw HistoryEntry records are kept before only rollups remain. */
+export function getRawRetentionDays(): number {
+  return positiveIntEnv("RAW_RETENTION_DAYS", DEFAULT_RAW_RETENTION_DAYS);
+}
+
+/** Days hourly rollups are kept. */
+export function getHourlyRollupRetentionDays(): number {
+  return positiveIntEnv("HOURLY_ROLLUP_RETENTION_DAYS", DEFAULT_HOURLY_ROLLUP_RETENTION_DAYS);
+}
+
+/** Days daily rollups are kept. */
+export function getDailyRollupRetentionDays(): number {
+  return positiveIntEnv("DAILY_ROLLUP_RETENTION_DAYS", DEFAULT_DAILY_ROLLUP_RETENTION_DAYS);
+}
+
+/** Consecutive failed checks before a target's state becomes "down". */
+export function getConfirmDownChecks(): number {
+  return positiveIntEnv("CONFIRM_DOWN_CHECKS", DEFAULT_CONFIRM_DOWN_CHECKS);
+}
+
+/** Consecutive successful checks before a "down" target is "up" again. */
+export function getConfirmUpChecks(): number {
+  return positiveIntEnv("CONFIRM_UP_CHECKS", DEFAULT_CONFIRM_UP_CHECKS);
+}
+
+/** How many recent checks flap detection looks at. */
+export function getFlapWindowChecks(): number {
+  return positiveIntEnv("FLAP_WINDOW_CHECKS", DEFAULT_FLAP_WINDOW_CHECKS);
+}
+
+/** success/failure changes within the flap window that mark a target "flapping"; 0 disables flap detection. */
+export function getFlapThreshold(): number {
+  const raw = process.env.FLAP_THRESHOLD;
+  if (raw === undefined || raw === "") return DEFAULT_FLAP_THRESHOLD;
+  const n = parseInt(raw, 10);
+  if (!Number.isFinite(n) || n < 0) return DEFAULT_FLAP_THRESHOLD;
+  return n;
+}
+
+/** Sustained Real-Debrid API request rate shared by all checks (Real-Debrid allows 250 per minute). */
+export function getRdRateLimitPerMinute(): number {
+  return positiveIntEnv("RD_RATE_LIMIT_PER_MINUTE", DEFAULT_RD_RATE_LIMIT_PER_MINUTE);
+}
+
+/** Requests that may go out back to back before the per-minute rate applies. */
+export function getRdRateLimitBurst(): number {
+  return positiveIntEnv("RD_RATE_LIMIT_BURST", DEFAULT_RD_RATE_LIMIT_BURST);
+}
+
+/** Stream check steps that can be retried. */
+export type RetryStep = "list" | "info" | "unrestrict" | "head" | "instant";
+
+/** Attempts per stream check step (1 = no retry): RETRY_ATTEMPTS_<STEP>, else RETRY_ATTEMPTS. */
+export function getRetryAttempts(step: RetryStep): number {
+  const fallback = positiveIntEnv("RETRY_ATTEMPTS", DEFAULT_RETRY_ATTEMPTS);
+  return positiveIntEnv(`RETRY_ATTEMPTS_${step.toUpperCase()}`, fallback);
+}
+
+/** Delay before the first retry; doubled for each further retry. */
+export function getRetryBackoffMs(): number {
+  return positiveIntEnv("RETRY_BACKOFF_MS", DEFAULT_RETRY_BACKOFF_MS);
+}
+
+/** Upper bound for the retry delay. */
+export function getRetryBackoffMaxMs(): number {
+  return positiveIntEnv("RETRY_BACKOFF_MAX_MS", DEFAULT_RETRY_BACKOFF_MAX_MS);
+}
+
+/** InfluxDB v2 write target (INFLUX_URL, INFLUX_ORG, INFLUX_BUCKET, optional INFLUX_TOKEN); null when unset. */
+export function getInfluxConfig(): {
+  url: string;
+  org: string;
+  bucket: string;
+  token?: string;
+} | null {
+  const url = process.env.INFLUX_URL?.trim();
+  const org = process.env.INFLUX_ORG?.trim();
+  const bucket = process.env.INFLUX_BUCKET?.trim();
+  if (!url || !org || !bucket) return null;
+  return { url, org, bucket, token: process.env.INFLUX_TOKEN?.trim() || undefined };
+}
+
+/** OTLP/HTTP metrics endpoint (e.g. http://localhost:4318/v1/metrics) and extra headers; null when unset. */
+export function getOtlpConfig(): { url: string; headers: Record<string, string> } | null {
+  const url = process.env.OTLP_METRICS_URL?.trim();
+  if (!url) return null;
+  const headers: Record<string, string> = {};
+  for (const pair of (process.env.OTLP_HEADERS ?? "").split(",")) {
+    const eq = pair.indexOf("=");
+    if (eq > 0) headers[pair.slice(0, eq).trim()] = pair.slice(eq + 1).trim();
+  }
+  return { url, headers };
+}
+
+/** Max entries per sink request. */
+export function getSinkBatchSize(): number {
+  return positiveIntEnv("SINK_BATCH_SIZE", DEFAULT_SINK_BATCH_SIZE);
+}
+
+/** How often queued entries are flushed to sinks. */
+export function getSinkFlushIntervalSeconds(): number {
+  return positiveIntEnv("SINK_FLUSH_INTERVAL_SECONDS", DEFAULT_SINK_FLUSH_INTERVAL_SECONDS);
+}
+
+/** Max entries buffered on disk per sink while it is unreachable; oldest are dropped beyond this. */
+export function getSinkBufferMaxEntries(): number {
+  return positiveIntEnv("SINK_BUFFER_MAX_ENTRIES", DEFAULT_SINK_BUFFER_MAX_ENTRIES);
+}
+
+/** Generic JSON webhook for notifications (NOTIFY_WEBHOOK_URL); null when unset. */
+export function getWebhookNotifyConfig(): { url: string } | null {
+  const url = process.env.NOTIFY_WEBHOOK_URL?.trim();
+  return url ? { url } : null;
+}
+
+/** Discord webhook URL (NOTIFY_DISCORD_WEBHOOK_URL); null when unset. */
+export function getDiscordNotifyConfig(): { url: string } | null {
+  const url = process.env.NOTIFY_DISCORD_WEBHOOK_URL?.trim();
+  return url ? { url } : null;
+}
+
+/** Slack incoming webhook URL (NOTIFY_SLACK_WEBHOOK_URL); null when unset. */
+export function getSlackNotifyConfig(): { url: string } | null {
+  const url = process.env.NOTIFY_SLACK_WEBHOOK_URL?.trim();
+  return url ? { url } : null;
+}
+
+/** Telegram bot (NOTIFY_TELEGRAM_BOT_TOKEN, NOTIFY_TELEGRAM_CHAT_ID, optional NOTIFY_TELEGRAM_API_URL); null when unset. */
+export function getTelegramNotifyConfig(): { apiUrl: string; botToken: string; chatId: string } | null {
+  const botToken = process.env.NOTIFY_TELEGRAM_BOT_TOKEN?.trim();
+  const chatId = process.env.NOTIFY_TELEGRAM_CHAT_ID?.trim();
+  if (!botToken || !chatId) return null;
+  const apiUrl = process.env.NOTIFY_TELEGRAM_API_URL?.trim() || DEFAULT_TELEGRAM_API_URL;
+  return { apiUrl, botToken, chatId };
+}
+
+/** ntfy topic URL (NOTIFY_NTFY_URL, e.g. https://ntfy.sh/my-topic) and optional NOTIFY_NTFY_TOKEN; null when unset. */
+export function getNtfyNotifyConfig(): { url: string; token?: string } | null {
+  const url = process.env.NOTIFY_NTFY_URL?.trim();
+  if (!url) return null;
+  return { url, token: process.env.NOTIFY_NTFY_TOKEN?.trim() || undefined };
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (SMTPS, usually port 465). Otherwise STARTTLS is used when the server offers it. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string[];
+}
+
+/** SMTP email (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_FROM, SMTP_TO); null when unset. */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST?.trim();
+  const from = process.env.SMTP_FROM?.trim();
+  const to = (process.env.SMTP_TO ?? "")
+    .split(",")
+    .map((a) => a.trim())
+    .filter(Boolean);
+  if (!host || !from || to.length === 0) return null;
+  const secure = process.env.SMTP_SECURE?.trim().toLowerCase() === "true";
+  return {
+    host,
+    port: positiveIntEnv("SMTP_PORT", secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER?.trim() || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from,
+    to,
+  };
+}
+
+/** Minutes between "still down" reminders for an open incident; 0 disables reminders. */
+export function getNotifyReminderMinutes(): number {
+  const raw = process.env.NOTIFY_REMINDER_MINUTES;
+  if (raw === undefined || raw === "") return DEFAULT_NOTIFY_REMINDER_MINUTES;
+  const n = parseInt(raw, 10);
+  if (!Number.isFinite(n) || n < 0) return DEFAULT_NOTIFY_REMINDER_MINUTES;
+  return n;
+}
+
+/** Message template override for a notification event (NOTIFY_TEMPLATE_DOWN, NOTIFY_TEMPLATE_RECOVERY, ...). */
+export function getNotifyTemplate(event: string): string | undefined {
+  return process.env[`NOTIFY_TEMPLATE_${event.toUpperCase()}`] || undefined;
 }
 
 /** HTTP server port. */
@@ -51,6 +398,24 @@ export function getPort(): number {
   return n;
 }
 
+/** Random delay (up to this many seconds) added to each scheduled run unless a schedule sets jitterSeconds. */
+export function getCheckJitterSeconds(): number {
+  const raw = process.env.CHECK_JITTER_SECONDS;
+  if (raw === undefined || raw === "") return DEFAULT_CHECK_JITTER_SECONDS;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_CHECK_JITTER_SECONDS;
+}
+
+/** How many stream checks of one cycle run at the same time. */
+export function getStreamConcurrency(): number {
+  return positiveIntEnv("STREAM_CONCURRENCY", DEFAULT_STREAM_CONCURRENCY);
+}
+
+/** Time budget for the stream checks of one cycle; streams not done by then are recorded as failed. */
+export function getCheckDeadlineSeconds(): number {
+  return positiveIntEnv("CHECK_DEADLINE_SECONDS", DEFAULT_CHECK_DEADLINE_SECONDS);
+}
+
 /** Path to streams config file (e.g. streams.json). */
 export function getStreamsConfigPath(): string {
   return resolve(projectRoot, "streams.json");
@@ -63,37 +428,205 @@ export function getFrontendDistPath(): string {
 
 let cachedStreamsConfig: StreamsConfig | null = null;
 
+const ALERT_METRICS: readonly string[] = ["responseTimeMs", "apiResponseTimeMs", "ttfbMs"];
+const ALERT_STATS: readonly string[] = ["last", "mean", "max", "p50", "p90", "p95", "p99"];
+
+function isAlertRule(r: unknown): r is AlertRule {
+  const rule = r as Record<string, unknown> | null;
+  if (!rule || typeof rule.id !== "string" || !rule.id) return false;
+  if (rule.account !== undefined && typeof rule.account !== "string") return false;
+  if (rule.type === "consecutive_failures") {
+    return typeof rule.target === "string" && typeof rule.count === "number" && rule.count >= 1;
+  }
+  if (rule.type !== "latency") return false;
+  if (rule.target !== undefined && typeof rule.target !== "string") return false;
+  if (rule.cdnHost !== undefined && typeof rule.cdnHost !== "string") return false;
+  if (typeof rule.metric !== "string" || !ALERT_METRICS.includes(rule.metric)) return false;
+  if (typeof rule.stat !== "string" || !ALERT_STATS.includes(rule.stat)) return false;
+  if (typeof rule.above !== "number") return false;
+  if (rule.stat === "last") return true;
+  return typeof rule.windowMinutes === "number" && rule.windowMinutes > 0;
+}
+
+function isMaintenanceDef(m: unknown): m is MaintenanceDef {
+  const def = m as Record<string, unknown> | null;
+  if (!def || typeof def.id !== "string" || !def.id) return false;
+  if (def.reason !== undefined && typeof def.reason !== "string") return false;
+  if (
+    def.targets !== undefined &&
+    !(Array.isArray(def.targets) && def.targets.every((t) => typeof t === "string"))
+  ) {
+    return false;
+  }
+  if (typeof def.cron === "string") {
+    if (typeof def.durationMinutes !== "number" || def.durationMinutes <= 0) return false;
+    try {
+      parseCron(def.cron);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+  if (typeof def.start !== "string" || typeof def.end !== "string") return false;
+  const start = new Date(def.start).getTime();
+  const end = new Date(def.end).getTime();
+  return !Number.isNaN(start) && !Number.isNaN(end) && start < end;
+}
+
+/** Valid schedule fields of a stream or `apiSchedule`; invalid ones are dropped (the default schedule applies). */
+function scheduleOf(raw: unknown): CheckSchedule {
+  const r = raw as Record<string, unknown> | null | undefined;
+  const schedule: CheckSchedule = {};
+  if (typeof r?.intervalSeconds === "number" && r.intervalSeconds > 0) {
+    schedule.intervalSeconds = r.intervalSeconds;
+  }
+  if (typeof r?.cron === "string") {
+    try {
+      parseCron(r.cron);
+      schedule.cron = r.cron;
+    } catch {
+      // invalid expression: fall back to the interval
+    }
+  }
+  if (typeof r?.jitterSeconds === "number" && r.jitterSeconds >= 0) {
+    schedule.jitterSeconds = r.jitterSeconds;
+  }
+  return schedule;
+}
+
+/** Valid throughput options, or undefined when the field is missing or not an object. */
+function throughputOf(raw: unknown): ThroughputDef | undefined {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return undefined;
+  const r = raw as Record<string, unknown>;
+  const def: ThroughputDef = {};
+  for (const key of ["bytes", "seconds", "stallMs"] as const) {
+    const v = r[key];
+    if (typeof v === "number" && v > 0) def[key] = v;
+  }
+  return def;
+}
+
+/** Valid seek options, or undefined when the field is missing or not an object. */
+function seekOf(raw: unknown): SeekDef | undefined {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return undefined;
+  const r = raw as Record<string, unknown>;
+  const def: SeekDef = {};
+  if (typeof r.randomOffsets === "number" && r.randomOffsets >= 0) def.randomOffsets = r.randomOffsets;
+  if (typeof r.slowMs === "number" && r.slowMs > 0) def.slowMs = r.slowMs;
+  return def;
+}
+
+/** Stream with invalid optional fields (schedule, throughput, seek, targetMbps) dropped. */
+function normalizeStream(stream: StreamDef): StreamDef {
+  const def = { ...stream };
+  delete def.intervalSeconds;
+  delete def.cron;
+  delete def.jitterSeconds;
+  delete def.throughput;
+  delete def.seek;
+  delete def.targetMbps;
+  const throughput = throughputOf(stream.throughput);
+  const seek = seekOf(stream.seek);
+  return {
+    ...def,
+    ...scheduleOf(stream),
+    ...(throughput && { throughput }),
+    ...(seek && { seek }),
+    ...(typeof stream.targetMbps === "number" && stream.targetMbps > 0 && { targetMbps: stream.targetMbps }),
+  };
+}
+
+/** Valid stream definitions, normalized; anything else is dropped. */
+function streamsOf(raw: unknown): StreamDef[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((s): s is StreamDef => {
+      if (!s || typeof s.id !== "string") return false;
+      if (s.type === "hash" && typeof s.hash === "string") return true;
+      if (s.type === "download" && typeof s.url === "string") return true;
+      if (s.type === "lifecycle" && typeof s.hash === "string") {
+        return s.waitSeconds === undefined || (typeof s.waitSeconds === "number" && s.waitSeconds > 0);
+      }
+      if (s.type === "instant" && Array.isArray(s.hashes) && s.hashes.length > 0) {
+        return s.hashes.every((h: unknown) => typeof h === "string" && h);
+      }
+      return false;
+    })
+    .map(normalizeStream);
+}
+
+const ACCOUNT_NAME = /^[A-Za-z0-9_-]+$/;
+
+/** Valid entries of the `accounts` section; invalid or duplicate names are dropped. */
+function accountsOf(raw: unknown): AccountConfig[] {
+  if (!Array.isArray(raw)) return [];
+  const accounts: AccountConfig[] = [];
+  for (const a of raw as Record<string, unknown>[]) {
+    if (!a || typeof a.name !== "string" || !ACCOUNT_NAME.test(a.name)) continue;
+    if (accounts.some((other) => other.name === a.name)) continue;
+    accounts.push({
+      name: a.name,
+      apiKeyEnv:
+        typeof a.apiKeyEnv === "string" && a.apiKeyEnv
+          ? a.apiKeyEnv
+          : `REAL_DEBRID_API_KEY_${a.name.toUpperCase().replace(/-/g, "_")}`,
+      apiCheck: typeof a.apiCheck === "boolean" ? a.apiCheck : true,
+      apiSchedule: scheduleOf(a.apiSchedule),
+      streams: streamsOf(a.streams),
+    });
+  }
+  return accounts;
+}
+
+/** The single account of configs without an `accounts` section. */
+function defaultAccount(apiCheck: boolean, apiSchedule: CheckSchedule, streams: StreamDef[]): AccountConfig {
+  return { name: DEFAULT_ACCOUNT, apiKeyEnv: "REAL_DEBRID_API_KEY", apiCheck, apiSchedule, streams };
+}
+
+function fallbackConfig(): StreamsConfig {
+  return { accounts: [defaultAccount(true, {}, [])], alerts: [], maintenance: [] };
+}
+
 /** Streams config from streams.json; re-read on each call so file changes apply. */
 export function getStreamsConfig(): StreamsConfig {
   if (cachedStreamsConfig) return cachedStreamsConfig;
   const path = getStreamsConfigPath();
   if (!existsSync(path)) {
-    cachedStreamsConfig = { apiCheck: true, streams: [] };
+    cachedStreamsConfig = fallbackConfig();
     return cachedStreamsConfig;
   }
   try {
     const raw = readFileSync(path, "utf-8");
-    const parsed = JSON.parse(raw) as StreamsConfig;
-    if (!parsed || typeof parsed.apiCheck !== "boolean") {
-      cachedStreamsConfig = { apiCheck: true, streams: [] };
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const accounts = accountsOf(parsed?.accounts);
+    if (!parsed || (accounts.length === 0 && typeof parsed.apiCheck !== "boolean")) {
+      cachedStreamsConfig = fallbackConfig();
       return cachedStreamsConfig;
     }
-    const streams = Array.isArray(parsed.streams)
-      ? parsed.streams.filter((s): s is StreamDef => {
-          if (!s || typeof s.id !== "string") return false;
-          if (s.type === "hash" && typeof s.hash === "string") return true;
-          if (s.type === "download" && typeof s.url === "string") return true;
-          return false;
-        })
+    const alerts = Array.isArray(parsed.alerts) ? parsed.alerts.filter(isAlertRule) : [];
+    const maintenance = Array.isArray(parsed.maintenance)
+      ? parsed.maintenance.filter(isMaintenanceDef)
       : [];
-    cachedStreamsConfig = { apiCheck: parsed.apiCheck, streams };
+    const legacy = () =>
+      defaultAccount(parsed.apiCheck as boolean, scheduleOf(parsed.apiSchedule), streamsOf(parsed.streams));
+    cachedStreamsConfig = {
+      accounts: accounts.length > 0 ? accounts : [legacy()],
+      alerts,
+      maintenance,
+    };
     return cachedStreamsConfig;
   } catch {
-    cachedStreamsConfig = { apiCheck: true, streams: [] };
+    cachedStreamsConfig = fallbackConfig();
     return cachedStreamsConfig;
   }
 }
 
+/** Configured account by name; without a name, the first one. */
+export function getAccount(name?: string): AccountConfig | undefined {
+  const { accounts } = getStreamsConfig();
+  return name === undefined ? accounts[0] : accounts.find((a) => a.name === name);
+}
+
 /** Clear cached streams config so next getStreamsConfig() re-reads the file. */
 export function clearStreamsConfigCache(): void {
   cachedStreamsConfig = null;
@@ -0,0 +1,117 @@
+/**
+ * Minimal 5-field cron expressions (minute hour day-of-month month day-of-week), evaluated in server local time
+ * (set TZ to change it). Fields accept *, numbers, ranges (a-b), steps with /n and comma lists;
+ * day-of-week is 0-7 with 0 and 7 both Sunday. As in cron, when both day fields are restricted either may match.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** False when the field is "*" (matters for the day-of-month / day-of-week OR rule). */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MINUTE_MS = 60_000;
+/** Upper bound for searches so an impossible schedule (e.g. Feb 30) cannot loop forever. */
+const MAX_SEARCH_MS = 366 * 24 * 60 * MINUTE_MS;
+
+function parseField(field: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const m = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!m) throw new Error(`invalid cron ${name} field: ${field}`);
+    const step = m[4] ? parseInt(m[4], 10) : 1;
+    let from = min;
+    let to = max;
+    if (m[1] !== "*") {
+      from = parseInt(m[2], 10);
+      to = m[3] !== undefined ? parseInt(m[3], 10) : m[4] ? max : from;
+    }
+    if (step < 1 || from < min || to > max || from > to) {
+      throw new Error(`invalid cron ${name} field: ${field}`);
+    }
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return values;
+}
+
+/** Parse an expression such as "0 3 * * 0"; throws on invalid input. */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error(`cron expression needs 5 fields: ${expression}`);
+  const daysOfWeek = parseField(fields[4], 0, 7, "day-of-week");
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    expression,
+    minutes: parseField(fields[0], 0, 59, "minute"),
+    hours: parseField(fields[1], 0, 23, "hour"),
+    daysOfMonth: parseField(fields[2], 1, 31, "day-of-month"),
+    months: parseField(fields[3], 1, 12, "month"),
+    daysOfWeek,
+    domRestricted: fields[2] !== "*",
+    dowRestricted: fields[4] !== "*",
+  };
+}
+
+function dayMatches(s: CronSchedule, d: Date): boolean {
+  if (!s.months.has(d.getMonth() + 1)) return false;
+  const dom = s.daysOfMonth.has(d.getDate());
+  const dow = s.daysOfWeek.has(d.getDay());
+  if (s.domRestricted && s.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/** True when the minute containing `d` is a fire time. */
+export function cronMatches(s: CronSchedule, d: Date): boolean {
+  return dayMatches(s, d) && s.hours.has(d.getHours()) && s.minutes.has(d.getMinutes());
+}
+
+/** First fire time strictly after `afterMs`, or null if none within a year. */
+export function nextCronTime(s: CronSchedule, afterMs: number): number | null {
+  const d = new Date(afterMs);
+  d.setSeconds(0, 0);
+  d.setMinutes(d.getMinutes() + 1);
+  const limit = afterMs + MAX_SEARCH_MS;
+  while (d.getTime() <= limit) {
+    if (!dayMatches(s, d)) {
+      d.setDate(d.getDate() + 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!s.hours.has(d.getHours())) {
+      d.setHours(d.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (s.minutes.has(d.getMinutes())) return d.getTime();
+    d.setMinutes(d.getMinutes() + 1);
+  }
+  return null;
+}
+
+/** Latest fire time at or before `atMs` and no older than `lookbackMs`, or null. */
+export function previousCronTime(s: CronSchedule, atMs: number, lookbackMs: number): number | null {
+  const d = new Date(atMs);
+  d.setSeconds(0, 0);
+  const limit = atMs - Math.min(lookbackMs, MAX_SEARCH_MS);
+  while (d.getTime() >= limit) {
+    if (!dayMatches(s, d)) {
+      // Jump to the last minute of the previous day.
+      d.setHours(0, 0, 0, 0);
+      d.setMinutes(-1);
+      continue;
+    }
+    if (!s.hours.has(d.getHours())) {
+      d.setMinutes(0, 0, 0);
+      d.setMinutes(-1);
+      continue;
+    }
+    if (s.minutes.has(d.getMinutes())) return d.getTime();
+    d.setMinutes(d.getMinutes() - 1);
+  }
+  return null;
+}
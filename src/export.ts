@@ -0,0 +1,69 @@
+/**
+ * History export: one flattened row per (timestamp, account, target) as CSV or NDJSON.
+ * API and stream records share one column schema; rows are produced lazily for streaming responses.
+ */
+
+import { iterate, type HistoryQuery } from "./storage.js";
+import { entryTargets, type TargetRecord } from "./targets.js";
+
+export type ExportFormat = "csv" | "ndjson";
+
+export const EXPORT_COLUMNS = [
+  "timestamp",
+  "account",
+  "kind",
+  "target",
+  "success",
+  "responseTimeMs",
+  "ttfbMs",
+  "httpStatus",
+  "cdnHost",
+  "errorType",
+  "failureStep",
+  "error",
+] as const;
+
+type ExportColumn = (typeof EXPORT_COLUMNS)[number];
+export type ExportRow = Record<ExportColumn, string | number | boolean | null>;
+
+function toRow(timestamp: string, t: TargetRecord): ExportRow {
+  return {
+    timestamp,
+    account: t.account,
+    kind: t.kind,
+    target: t.target,
+    success: t.success,
+    responseTimeMs: t.responseTimeMs ?? null,
+    ttfbMs: t.ttfbMs ?? null,
+    httpStatus: t.httpStatus ?? null,
+    cdnHost: t.cdnHost ?? null,
+    errorType: t.errorType ?? null,
+    failureStep: t.failureStep ?? null,
+    error: "error" in t.record && t.record.error ? t.record.error : null,
+  };
+}
+
+function csvField(value: string | number | boolean | null): string {
+  if (value == null) return "";
+  const s = String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Flattened rows for entries matching the /status/history filters, oldest first. */
+export function* exportRows(q: HistoryQuery): Generator<ExportRow> {
+  for (const entry of iterate(q)) {
+    for (const t of entryTargets(entry)) yield toRow(entry.timestamp, t);
+  }
+}
+
+/** Serialized export, one chunk per line (CSV starts with a header line). */
+export function* exportLines(format: ExportFormat, q: HistoryQuery): Generator<string> {
+  if (format === "csv") {
+    yield EXPORT_COLUMNS.join(",") + "\n";
+    for (const row of exportRows(q)) {
+      yield EXPORT_COLUMNS.map((c) => csvField(row[c])).join(",") + "\n";
+    }
+    return;
+  }
+  for (const row of exportRows(q)) yield JSON.stringify(row) + "\n";
+}
@@ -0,0 +1,179 @@
+/**
+ * History import: validate NDJSON HistoryEntry lines from another instance and merge them into storage.
+ * Duplicates are detected per (timestamp, account, target), so overlapping files can be imported safely.
+ * Entries older than RAW_RETENTION_DAYS go straight into the hourly and daily rollups.
+ */
+
+import { getDailyRollupRetentionDays, getRawRetentionDays } from "./config.js";
+import { DAY_MS } from "./rollups.js";
+import {
+  merge,
+  rollUpOld,
+  type HistoryEntry,
+  type ApiRecord,
+  type StreamRecord,
+} from "./storage.js";
+
+/** Rejected lines listed individually in the report; the count is always complete. */
+const MAX_REPORTED_REJECTIONS = 100;
+/** Clock skew tolerated for entries from other hosts. */
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+export interface ImportRejection {
+  line: number;
+  reason: string;
+}
+
+export interface ImportReport {
+  lines: number;
+  /** Entries that passed validation. */
+  accepted: number;
+  /** Accepted entries older than RAW_RETENTION_DAYS, folded into rollups instead of raw history. */
+  rolledUp: number;
+  /** Hourly and daily rollups written for them. */
+  rollupsWritten: number;
+  /** Target records (API check or stream) written to storage. */
+  recordsAdded: number;
+  /** Target records skipped because storage already had one for that timestamp. */
+  duplicates: number;
+  rejectedCount: number;
+  rejected: ImportRejection[];
+}
+
+const OPTIONAL_STREAM_FIELDS: Record<string, "number" | "string" | "boolean"> = {
+  apiResponseTimeMs: "number",
+  ttfbMs: "number",
+  httpStatus: "number",
+  cdnHost: "string",
+  errorType: "string",
+  failureStep: "string",
+  maintenance: "boolean",
+  unsupported: "boolean",
+};
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function validateApi(v: unknown): string | null {
+  if (!isObject(v)) return "api must be an object";
+  if (typeof v.success !== "boolean") return "api.success must be a boolean";
+  if (typeof v.responseTimeMs !== "number") return "api.responseTimeMs must be a number";
+  if (typeof v.httpStatus !== "number") return "api.httpStatus must be a number";
+  if (v.error !== undefined && typeof v.error !== "string") return "api.error must be a string";
+  if (v.maintenance !== undefined && typeof v.maintenance !== "boolean") {
+    return "api.maintenance must be a boolean";
+  }
+  return null;
+}
+
+function validateStream(id: string, v: unknown): string | null {
+  if (!isObject(v)) return `streams.${id} must be an object`;
+  if (typeof v.success !== "boolean") return `streams.${id}.success must be a boolean`;
+  for (const [field, type] of Object.entries(OPTIONAL_STREAM_FIELDS)) {
+    if (v[field] !== undefined && typeof v[field] !== type) {
+      return `streams.${id}.${field} must be a ${type}`;
+    }
+  }
+  for (const field of ["attempts", "instant"]) {
+    const list = v[field];
+    if (list !== undefined && !(Array.isArray(list) && list.every(isObject))) {
+      return `streams.${id}.${field} must be an array of objects`;
+    }
+  }
+  for (const field of ["timing", "throughput", "seek", "lifecycle"]) {
+    if (v[field] !== undefined && !isObject(v[field])) return `streams.${id}.${field} must be an object`;
+  }
+  return null;
+}
+
+/** Parse and validate one NDJSON line; returns the entry or why it was rejected. */
+export function parseEntryLine(
+  line: string,
+  nowMs: number
+): { entry: HistoryEntry } | { reason: string } {
+  let v: unknown;
+  try {
+    v = JSON.parse(line);
+  } catch {
+    return { reason: "invalid JSON" };
+  }
+  if (!isObject(v)) return { reason: "not an object" };
+  if (typeof v.timestamp !== "string") return { reason: "timestamp must be a string" };
+  const ms = new Date(v.timestamp).getTime();
+  if (Number.isNaN(ms)) return { reason: "timestamp is not a valid date" };
+  if (ms > nowMs + FUTURE_TOLERANCE_MS) return { reason: "timestamp is in the future" };
+  if (ms <= nowMs - getDailyRollupRetentionDays() * DAY_MS) {
+    return { reason: "timestamp is older than DAILY_ROLLUP_RETENTION_DAYS" };
+  }
+  if (v.account !== undefined && (typeof v.account !== "string" || !v.account)) {
+    return { reason: "account must be a non-empty string" };
+  }
+  if (v.api === undefined && v.streams === undefined) return { reason: "no api or streams" };
+  if (v.api !== undefined) {
+    const err = validateApi(v.api);
+    if (err) return { reason: err };
+  }
+  if (v.streams !== undefined) {
+    if (!isObject(v.streams)) return { reason: "streams must be an object" };
+    for (const [id, rec] of Object.entries(v.streams)) {
+      const err = validateStream(id, rec);
+      if (err) return { reason: err };
+    }
+  }
+  return {
+    entry: {
+      timestamp: v.timestamp,
+      ...(v.account !== undefined && { account: v.account }),
+      ...(v.api !== undefined && { api: v.api as unknown as ApiRecord }),
+      ...(v.streams !== undefined && {
+        streams: v.streams as unknown as Record<string, StreamRecord>,
+      }),
+    },
+  };
+}
+
+/**
+ * Validate every line of an NDJSON document and merge the valid entries, oldest first; entries past the raw
+ * retention are rolled up (see rollUpOld).
+ */
+export function importHistory(ndjson: string): ImportReport {
+  const nowMs = Date.now();
+  const report: ImportReport = {
+    lines: 0,
+    accepted: 0,
+    rolledUp: 0,
+    rollupsWritten: 0,
+    recordsAdded: 0,
+    duplicates: 0,
+    rejectedCount: 0,
+    rejected: [],
+  };
+  const entries: HistoryEntry[] = [];
+  const lines = ndjson.split("\n");
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+    report.lines += 1;
+    const parsed = parseEntryLine(line, nowMs);
+    if ("reason" in parsed) {
+      report.rejectedCount += 1;
+      if (report.rejected.length < MAX_REPORTED_REJECTIONS) {
+        report.rejected.push({ line: i + 1, reason: parsed.reason });
+      }
+      return;
+    }
+    entries.push(parsed.entry);
+  });
+  report.accepted = entries.length;
+  const rawCutoffMs = nowMs - getRawRetentionDays() * DAY_MS;
+  const old = entries.filter((e) => new Date(e.timestamp).getTime() <= rawCutoffMs);
+  const recent = entries.filter((e) => new Date(e.timestamp).getTime() > rawCutoffMs);
+  report.rolledUp = old.length;
+  report.rollupsWritten = rollUpOld(old);
+  recent.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const result = merge(recent);
+  report.recordsAdded = result.added;
+  report.duplicates = result.duplicates;
+  return report;
+}
@@ -0,0 +1,230 @@
+/**
+ * Incident model: an incident opens on a failed check once a target (API or stream) is down or flapping
+ * (see targetState.ts) and resolves when its state is up again. Persisted to incidents.json in the data directory.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { getDailyRollupRetentionDays, getDataFilePath } from "./config.js";
+import { DAY_MS } from "./rollups.js";
+import { DEFAULT_ACCOUNT, type HistoryEntry } from "./storage.js";
+import { recordState } from "./targetState.js";
+import { entryTargets, isCounted, type TargetKind, type TargetRecord } from "./targets.js";
+
+export interface Incident {
+  id: number;
+  /** Missing on incidents recorded before accounts existed, which belong to DEFAULT_ACCOUNT. */
+  account?: string;
+  kind: TargetKind;
+  /** "api" for the API check, otherwise the stream id. */
+  target: string;
+  status: "open" | "resolved";
+  /** Timestamp of the failed check that confirmed the target down (or flapping). */
+  start: string;
+  /** Timestamp of the check that confirmed the target up again; null while open. */
+  end: string | null;
+  /** end - start; for open incidents, time until the latest failed check. */
+  durationMs: number;
+  lastFailureAt: string;
+  failedChecks: number;
+  failureSteps: Record<string, number>;
+  errorTypes: Record<string, number>;
+  /** Most frequent failureStep / errorType over the incident. */
+  dominantFailureStep?: string;
+  dominantErrorType?: string;
+  cdnHosts: string[];
+  /** Latest API error message (API incidents). */
+  lastError?: string;
+}
+
+export interface IncidentQuery {
+  status?: "open" | "resolved";
+  account?: string;
+  /** Stream id, or "api" for the API check. */
+  target?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+/** An incident that opened or resolved on one check, with the target record that caused it. */
+export interface IncidentTransition {
+  incident: Incident;
+  change: "opened" | "resolved";
+  record: TargetRecord;
+}
+
+interface IncidentFile {
+  nextId: number;
+  incidents: Incident[];
+}
+
+let store: IncidentFile | null = null;
+
+function filePath(): string {
+  return getDataFilePath("incidents.json");
+}
+
+function load(): IncidentFile {
+  if (store) return store;
+  const path = filePath();
+  store = { nextId: 1, incidents: [] };
+  if (existsSync(path)) {
+    try {
+      const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<IncidentFile>;
+      if (Array.isArray(parsed.incidents)) {
+        store.incidents = parsed.incidents;
+        store.nextId = Math.max(
+          parsed.nextId ?? 1,
+          ...parsed.incidents.map((i) => i.id + 1)
+        );
+      }
+    } catch {
+      // unreadable file: start fresh rather than fail checks
+    }
+  }
+  return store;
+}
+
+function save(file: IncidentFile): void {
+  const path = filePath();
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(file), "utf-8");
+  renameSync(tmpPath, path);
+}
+
+function dominant(counts: Record<string, number>): string | undefined {
+  let best: string | undefined;
+  for (const [key, n] of Object.entries(counts)) {
+    if (best === undefined || n > counts[best]) best = key;
+  }
+  return best;
+}
+
+export function incidentAccount(incident: Incident): string {
+  return incident.account ?? DEFAULT_ACCOUNT;
+}
+
+function msBetween(a: string, b: string): number {
+  return Math.max(0, new Date(b).getTime() - new Date(a).getTime());
+}
+
+/**
+ * Open, extend or resolve incidents from one completed check and return what opened or resolved. Never throws.
+ */
+export function trackIncidents(entry: HistoryEntry): IncidentTransition[] {
+  const transitions: IncidentTransition[] = [];
+  try {
+    const file = load();
+    let changed = false;
+    for (const t of entryTargets(entry)) {
+      const open = file.incidents.find(
+        (i) =>
+          i.status === "open" &&
+          incidentAccount(i) === t.account &&
+          i.kind === t.kind &&
+          i.target === t.target
+      );
+      // Failures during maintenance and unsupported checks neither open nor extend incidents.
+      if (!t.success && !isCounted(t)) continue;
+      const state = recordState(t.record);
+      if (state === "up") {
+        if (!open) continue;
+        open.status = "resolved";
+        open.end = entry.timestamp;
+        open.durationMs = msBetween(open.start, entry.timestamp);
+        changed = true;
+        transitions.push({ incident: open, change: "resolved", record: t });
+        console.log(
+          JSON.stringify({
+            msg: "incident_resolved",
+            id: open.id,
+            account: t.account,
+            target: t.target,
+            durationMs: open.durationMs,
+          })
+        );
+        continue;
+      }
+      // Down or flapping: a success does not resolve yet (CONFIRM_UP_CHECKS), nor open a new incident.
+      if (t.success) continue;
+      const incident =
+        open ??
+        ({
+          id: file.nextId++,
+          account: t.account,
+          kind: t.kind,
+          target: t.target,
+          status: "open",
+          start: entry.timestamp,
+          end: null,
+          durationMs: 0,
+          lastFailureAt: entry.timestamp,
+          failedChecks: 0,
+          failureSteps: {},
+          errorTypes: {},
+          cdnHosts: [],
+        } satisfies Incident);
+      if (!open) {
+        file.incidents.push(incident);
+        transitions.push({ incident, change: "opened", record: t });
+        console.log(
+          JSON.stringify({ msg: "incident_opened", id: incident.id, account: t.account, target: t.target })
+        );
+      }
+      incident.failedChecks += 1;
+      incident.lastFailureAt = entry.timestamp;
+      incident.durationMs = msBetween(incident.start, entry.timestamp);
+      if (t.failureStep) {
+        incident.failureSteps[t.failureStep] = (incident.failureSteps[t.failureStep] ?? 0) + 1;
+      }
+      if (t.errorType) {
+        incident.errorTypes[t.errorType] = (incident.errorTypes[t.errorType] ?? 0) + 1;
+      }
+      incident.dominantFailureStep = dominant(incident.failureSteps);
+      incident.dominantErrorType = dominant(incident.errorTypes);
+      if (t.cdnHost && !incident.cdnHosts.includes(t.cdnHost)) incident.cdnHosts.push(t.cdnHost);
+      if ("error" in t.record && t.record.error) incident.lastError = t.record.error;
+      changed = true;
+    }
+    if (changed) {
+      pruneResolved(file);
+      save(file);
+    }
+  } catch (err) {
+    console.log(
+      JSON.stringify({
+        msg: "incident_error",
+        error: err instanceof Error ? err.message : String(err),
+      })
+    );
+  }
+  return transitions;
+}
+
+/** Resolved incidents are kept as long as daily rollups. */
+function pruneResolved(file: IncidentFile): void {
+  const cutoff = Date.now() - getDailyRollupRetentionDays() * DAY_MS;
+  file.incidents = file.incidents.filter(
+    (i) => i.status === "open" || new Date(i.end ?? i.start).getTime() > cutoff
+  );
+}
+
+/** Incidents matching the query, newest first. from/to select incidents overlapping that range. */
+export function listIncidents(q: IncidentQuery = {}): Incident[] {
+  const fromMs = q.from ? new Date(q.from).getTime() : NaN;
+  const toMs = q.to ? new Date(q.to).getTime() : NaN;
+  let list = load().incidents.filter((i) => {
+    if (q.status && i.status !== q.status) return false;
+    if (q.account && incidentAccount(i) !== q.account) return false;
+    if (q.target && i.target !== q.target) return false;
+    if (!Number.isNaN(toMs) && new Date(i.start).getTime() > toMs) return false;
+    if (!Number.isNaN(fromMs) && i.end && new Date(i.end).getTime() < fromMs) return false;
+    return true;
+  });
+  list = [...list].sort((a, b) => new Date(b.start).getTime() - new Date(a.start).getTime());
+  return q.limit && q.limit > 0 ? list.slice(0, q.limit) : list;
+}
+
+export function getIncident(id: number): Incident | null {
+  return load().incidents.find((i) => i.id === id) ?? null;
+}
@@ -3,27 +3,52 @@
  */
 
 import "dotenv/config";
-import { ensureStoragePath } from "./storage.js";
+import { ensureStoragePath, startCompaction, stopCompaction } from "./storage.js";
 import { start, stop } from "./scheduler.js";
 import { startApiServer } from "./api/server.js";
-import { getApiKey } from "./config.js";
+import { startSinks, stopSinks } from "./sinks.js";
+import { getAccountApiKey, getStreamsConfig } from "./config.js";
+import { cleanupLifecycleItems } from "./lifecycle.js";
 
-function main(): void {
-  ensureStoragePath();
-  const token = getApiKey();
-  if (!token) {
+async function main(): Promise<void> {
+  try {
+    await ensureStoragePath();
+  } catch (err) {
     console.error(
-      JSON.stringify({ msg: "missing REAL_DEBRID_API_KEY", fatal: true })
+      JSON.stringify({
+        msg: "storage_open_failed",
+        error: err instanceof Error ? err.message : String(err),
+        fatal: true,
+      })
+    );
+    process.exitCode = 1;
+    return;
+  }
+  const missing = getStreamsConfig().accounts.filter((a) => !getAccountApiKey(a));
+  if (missing.length > 0) {
+    console.error(
+      JSON.stringify({
+        msg: `missing ${missing.map((a) => a.apiKeyEnv).join(", ")}`,
+        accounts: missing.map((a) => a.name),
+        fatal: true,
+      })
     );
     process.exitCode = 1;
     return;
   }
 
   const server = startApiServer();
-  start();
+  startCompaction();
+  startSinks();
 
+  // Registered before the lifecycle cleanup, which can take a while; the scheduler may not have started yet.
+  let started = false;
+  let shuttingDown = false;
   const shutdown = () => {
-    stop().then(() => {
+    shuttingDown = true;
+    stopCompaction();
+    stopSinks();
+    (started ? stop() : Promise.resolve()).then(() => {
       server.close(() => {
         process.exit(0);
       });
@@ -31,6 +56,12 @@ function main(): void {
   };
   process.on("SIGINT", shutdown);
   process.on("SIGTERM", shutdown);
+
+  // Items left behind by lifecycle checks of an earlier run; done before the first checks add their own.
+  await cleanupLifecycleItems();
+  if (shuttingDown) return;
+  start();
+  started = true;
 }
 
-main();
+void main();
@@ -0,0 +1,177 @@
+/**
+ * Bookkeeping for lifecycle checks: every item they add to an account is recorded in lifecycle.json before the
+ * add is sent and kept until it has been deleted, so items left behind by a crash, a failed delete or an add that
+ * timed out on our side are removed by the next cleanup (at startup and before each cycle with lifecycle checks).
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { getAccount, getAccountApiKey, getDataFilePath } from "./config.js";
+import { deleteFromCache, getCacheList } from "./rdClient.js";
+
+export interface PendingLifecycleItem {
+  account: string;
+  /** Real-Debrid torrent id returned by addMagnet; missing while the add is pending or its outcome is unknown. */
+  id?: string;
+  hash: string;
+  addedAt: string;
+}
+
+/** Added items may show an `added` time slightly before ours (clock skew). */
+const ADDED_SLACK_MS = 5 * 60_000;
+
+let store: PendingLifecycleItem[] | null = null;
+/** Items of checks still running; cleanup leaves them to the check. */
+const active = new Set<PendingLifecycleItem>();
+
+function filePath(): string {
+  return getDataFilePath("lifecycle.json");
+}
+
+function load(): PendingLifecycleItem[] {
+  if (store) return store;
+  store = [];
+  const path = filePath();
+  if (existsSync(path)) {
+    try {
+      const parsed = JSON.parse(readFileSync(path, "utf-8")) as { items?: PendingLifecycleItem[] };
+      if (Array.isArray(parsed.items)) store = parsed.items;
+    } catch {
+      // unreadable file: start fresh
+    }
+  }
+  return store;
+}
+
+function save(items: PendingLifecycleItem[]): void {
+  const path = filePath();
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify({ items }), "utf-8");
+  renameSync(tmpPath, path);
+}
+
+function logError(msg: string, item: PendingLifecycleItem, err: unknown): void {
+  console.log(
+    JSON.stringify({
+      msg,
+      account: item.account,
+      id: item.id,
+      hash: item.hash,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  );
+}
+
+/**
+ * Record an item before its add is sent, so it is tracked even if the add succeeds but the response never
+ * arrives. Returns the record for the other calls below. Never throws.
+ */
+export function trackLifecycleItem(account: string, hash: string): PendingLifecycleItem {
+  const item: PendingLifecycleItem = { account, hash, addedAt: new Date().toISOString() };
+  active.add(item);
+  try {
+    const items = load();
+    items.push(item);
+    save(items);
+  } catch (err) {
+    logError("lifecycle_track_error", item, err);
+  }
+  return item;
+}
+
+/** Store the id addMagnet returned. Never throws. */
+export function setLifecycleItemId(item: PendingLifecycleItem, id: string): void {
+  item.id = id;
+  try {
+    save(load());
+  } catch (err) {
+    logError("lifecycle_track_error", item, err);
+  }
+}
+
+/** Forget an item once it has been deleted (or was never added). Never throws. */
+export function releaseLifecycleItem(item: PendingLifecycleItem): void {
+  active.delete(item);
+  try {
+    const items = load();
+    const index = items.indexOf(item);
+    if (index < 0) return;
+    items.splice(index, 1);
+    save(items);
+  } catch (err) {
+    logError("lifecycle_release_error", item, err);
+  }
+}
+
+/** Leave an item to the next cleanup: its delete failed, or the add's outcome is unknown. */
+export function handOverLifecycleItem(item: PendingLifecycleItem): void {
+  active.delete(item);
+}
+
+/**
+ * Ids to delete for a pending item: its own id, or (add outcome unknown) the account's items with its hash
+ * added since the add was sent (except those of running checks). Null when the torrent list cannot be read.
+ */
+async function resolveIds(token: string, item: PendingLifecycleItem): Promise<string[] | null> {
+  if (item.id) return [item.id];
+  const list = await getCacheList(token);
+  if (!list.success) return null;
+  const since = Date.parse(item.addedAt) - ADDED_SLACK_MS;
+  const inUse = new Set([...active].map((i) => i.id));
+  return (list.items ?? [])
+    .filter(
+      (t) =>
+        t.hash.toLowerCase() === item.hash.toLowerCase() && Date.parse(t.added) >= since && !inUse.has(t.id)
+    )
+    .map((t) => t.id);
+}
+
+/**
+ * Delete every pending item (of `account`, when given) with its account's key; items of checks still running
+ * are skipped. Items whose account is gone or has no key, and items whose delete fails, stay pending for the
+ * next cleanup. Never throws.
+ */
+export async function cleanupLifecycleItems(account?: string): Promise<void> {
+  for (const item of [...load()]) {
+    if (active.has(item) || (account != null && item.account !== account)) continue;
+    const accountConfig = getAccount(item.account);
+    const token = accountConfig && getAccountApiKey(accountConfig);
+    if (!token) {
+      console.log(
+        JSON.stringify({
+          msg: "lifecycle_cleanup_skipped",
+          account: item.account,
+          id: item.id,
+          hash: item.hash,
+          reason: "no api key",
+        })
+      );
+      continue;
+    }
+    const ids = await resolveIds(token, item);
+    if (ids == null) {
+      console.log(
+        JSON.stringify({ msg: "lifecycle_cleanup_failed", account: item.account, hash: item.hash, step: "list" })
+      );
+      continue;
+    }
+    let deletedAll = true;
+    for (const id of ids) {
+      const result = await deleteFromCache(token, id);
+      // 404: already gone (deleted by hand or by Real-Debrid).
+      if (result.success || result.httpStatus === 404) {
+        console.log(JSON.stringify({ msg: "lifecycle_cleanup", account: item.account, id, hash: item.hash }));
+      } else {
+        deletedAll = false;
+        console.log(
+          JSON.stringify({
+            msg: "lifecycle_cleanup_failed",
+            account: item.account,
+            id,
+            httpStatus: result.httpStatus,
+          })
+        );
+      }
+    }
+    if (deletedAll) releaseLifecycleItem(item);
+  }
+}
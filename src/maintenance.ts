@@ -0,0 +1,205 @@
+/**
+ * Maintenance windows (streams.json `maintenance`, one-off or recurring) and ad-hoc silences (created through
+ * the API, persisted to silences.json). Checks inside a window are tagged `maintenance: true`; notifications are
+ * suppressed while a window or silence covers the target.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { getDataFilePath, getStreamsConfig, type MaintenanceDef } from "./config.js";
+import { nextCronTime, parseCron, previousCronTime } from "./cron.js";
+import { DEFAULT_ACCOUNT, entryAccount, type HistoryEntry } from "./storage.js";
+import { API_TARGET } from "./targets.js";
+
+export interface Silence {
+  id: number;
+  /** Stream ids and/or "api", optionally account-qualified ("alice/tv"); omitted means every target. */
+  targets?: string[];
+  start: string;
+  end: string;
+  reason?: string;
+  createdAt: string;
+}
+
+export interface MaintenanceStatus {
+  def: MaintenanceDef;
+  active: boolean;
+  /** Current occurrence when active, otherwise the next one (null when there is none). */
+  start: string | null;
+  end: string | null;
+}
+
+interface SilenceFile {
+  nextId: number;
+  silences: Silence[];
+}
+
+let store: SilenceFile | null = null;
+
+function filePath(): string {
+  return getDataFilePath("silences.json");
+}
+
+function load(): SilenceFile {
+  if (store) return store;
+  const path = filePath();
+  store = { nextId: 1, silences: [] };
+  if (existsSync(path)) {
+    try {
+      const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<SilenceFile>;
+      if (Array.isArray(parsed.silences)) {
+        store.silences = parsed.silences;
+        store.nextId = Math.max(parsed.nextId ?? 1, ...parsed.silences.map((s) => s.id + 1));
+      }
+    } catch {
+      // unreadable file: start fresh
+    }
+  }
+  return store;
+}
+
+function save(file: SilenceFile): void {
+  const path = filePath();
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(file), "utf-8");
+  renameSync(tmpPath, path);
+}
+
+/**
+ * `target` undefined stands for "every target", which only all-target windows and silences cover. A plain name
+ * covers the target in every account; "account/target" covers it in that account only.
+ */
+function covers(targets: string[] | undefined, target: string | undefined, account: string): boolean {
+  if (!targets || targets.length === 0) return true;
+  return target !== undefined && (targets.includes(target) || targets.includes(`${account}/${target}`));
+}
+
+/** The occurrence of a window containing `atMs`, else the next one after it. */
+function occurrence(def: MaintenanceDef, atMs: number): { startMs: number; endMs: number } | null {
+  if ("cron" in def) {
+    const durationMs = def.durationMinutes * 60_000;
+    const schedule = parseCron(def.cron);
+    const prev = previousCronTime(schedule, atMs, durationMs);
+    if (prev != null && prev + durationMs > atMs) return { startMs: prev, endMs: prev + durationMs };
+    const next = nextCronTime(schedule, atMs);
+    return next != null ? { startMs: next, endMs: next + durationMs } : null;
+  }
+  const startMs = new Date(def.start).getTime();
+  const endMs = new Date(def.end).getTime();
+  return endMs > atMs ? { startMs, endMs } : null;
+}
+
+function windowActive(def: MaintenanceDef, atMs: number): boolean {
+  const o = occurrence(def, atMs);
+  return o != null && o.startMs <= atMs && atMs < o.endMs;
+}
+
+/** True when a configured maintenance window covers `target` of `account` at `atMs`. */
+export function inMaintenance(
+  target: string | undefined,
+  atMs: number,
+  account: string = DEFAULT_ACCOUNT
+): boolean {
+  return getStreamsConfig().maintenance.some(
+    (def) => covers(def.targets, target, account) && windowActive(def, atMs)
+  );
+}
+
+/**
+ * Time in [fromMs, toMs) during which a configured maintenance window covers `target` of `account`; overlapping
+ * windows are counted once.
+ */
+export function maintenanceOverlapMs(
+  target: string,
+  account: string,
+  fromMs: number,
+  toMs: number
+): number {
+  const intervals: { startMs: number; endMs: number }[] = [];
+  for (const def of getStreamsConfig().maintenance) {
+    if (!covers(def.targets, target, account)) continue;
+    // Each occurrence ends later than the one before, so this always moves forward.
+    for (let o = occurrence(def, fromMs); o && o.startMs < toMs; o = occurrence(def, o.endMs)) {
+      intervals.push({ startMs: Math.max(o.startMs, fromMs), endMs: Math.min(o.endMs, toMs) });
+      if (!("cron" in def)) break;
+    }
+  }
+  intervals.sort((a, b) => a.startMs - b.startMs);
+  let total = 0;
+  let coveredTo = fromMs;
+  for (const { startMs, endMs } of intervals) {
+    const from = Math.max(startMs, coveredTo);
+    if (endMs > from) {
+      total += endMs - from;
+      coveredTo = endMs;
+    }
+  }
+  return total;
+}
+
+/** True when notifications for `target` of `account` should not be sent at `atMs` (maintenance window or silence). */
+export function isSuppressed(
+  target: string | undefined,
+  atMs: number,
+  account: string = DEFAULT_ACCOUNT
+): boolean {
+  if (inMaintenance(target, atMs, account)) return true;
+  return load().silences.some(
+    (s) =>
+      covers(s.targets, target, account) &&
+      new Date(s.start).getTime() <= atMs &&
+      atMs < new Date(s.end).getTime()
+  );
+}
+
+/** Mark records checked during a maintenance window (call before the entry is stored). */
+export function tagMaintenance(entry: HistoryEntry): void {
+  const atMs = new Date(entry.timestamp).getTime();
+  const account = entryAccount(entry);
+  if (entry.api && inMaintenance(API_TARGET, atMs, account)) entry.api.maintenance = true;
+  for (const [id, record] of Object.entries(entry.streams ?? {})) {
+    if (inMaintenance(id, atMs, account)) record.maintenance = true;
+  }
+}
+
+/** Configured windows with their current or next occurrence. */
+export function listMaintenance(nowMs = Date.now()): MaintenanceStatus[] {
+  return getStreamsConfig().maintenance.map((def) => {
+    const o = occurrence(def, nowMs);
+    return {
+      def,
+      active: o != null && o.startMs <= nowMs,
+      start: o ? new Date(o.startMs).toISOString() : null,
+      end: o ? new Date(o.endMs).toISOString() : null,
+    };
+  });
+}
+
+/** Silences that have not ended yet, soonest first. Expired ones are dropped from the file. */
+export function listSilences(nowMs = Date.now()): Silence[] {
+  const file = load();
+  const current = file.silences.filter((s) => new Date(s.end).getTime() > nowMs);
+  if (current.length !== file.silences.length) {
+    file.silences = current;
+    save(file);
+  }
+  return [...current].sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+}
+
+export function createSilence(input: Omit<Silence, "id" | "createdAt">): Silence {
+  const file = load();
+  const silence: Silence = { id: file.nextId++, ...input, createdAt: new Date().toISOString() };
+  file.silences.push(silence);
+  save(file);
+  console.log(JSON.stringify({ msg: "silence_created", id: silence.id, end: silence.end }));
+  return silence;
+}
+
+/** Remove a silence; false when it does not exist. */
+export function deleteSilence(id: number): boolean {
+  const file = load();
+  const before = file.silences.length;
+  file.silences = file.silences.filter((s) => s.id !== id);
+  if (file.silences.length === before) return false;
+  save(file);
+  return true;
+}
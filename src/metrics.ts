@@ -0,0 +1,237 @@
+/**
+ * Prometheus metrics: latency histograms and failure counters accumulated since process start,
+ * plus gauges from the latest stored check of each target and scheduler state. Rendered in the text exposition format.
+ */
+
+import { getStreamsConfig } from "./config.js";
+import {
+  entryAccount,
+  latestPerTarget,
+  type CurrentEntry,
+  type HistoryEntry,
+} from "./storage.js";
+import { getSchedulerState } from "./scheduler.js";
+import { entryTargets } from "./targets.js";
+
+/** Histogram upper bounds in seconds. */
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+type Labels = Record<string, string>;
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+interface CounterSeries {
+  labels: Labels;
+  value: number;
+}
+
+interface MetricFamily<T> {
+  help: string;
+  series: Map<string, T>;
+}
+
+function family<T>(help: string): MetricFamily<T> {
+  return { help, series: new Map() };
+}
+
+const histograms = {
+  rd_api_response_time_seconds: family<HistogramSeries>(
+    "API check response time (responseTimeMs)."
+  ),
+  rd_stream_api_response_time_seconds: family<HistogramSeries>(
+    "Real-Debrid API time spent resolving a stream link (apiResponseTimeMs)."
+  ),
+  rd_stream_ttfb_seconds: family<HistogramSeries>("CDN time to first byte (ttfbMs)."),
+};
+
+const counters = {
+  rd_checks_total: family<CounterSeries>("Checks run, by account and target."),
+  rd_check_failures_total: family<CounterSeries>(
+    "Failed checks, by account, target, failureStep, errorType and cdnHost."
+  ),
+};
+
+/**
+ * Newest record of each target by account for the gauges: read from storage once, on the first scrape, then
+ * kept current by recordEntry so scrapes never read history.
+ */
+let current: Map<string, CurrentEntry> | null = null;
+
+function currentEntries(): Map<string, CurrentEntry> {
+  if (current) return current;
+  current = new Map();
+  for (const a of getStreamsConfig().accounts) {
+    const entry = latestPerTarget(a.name);
+    if (entry) current.set(a.name, entry);
+  }
+  return current;
+}
+
+function updateCurrent(entry: HistoryEntry): void {
+  // Not seeded yet: the first scrape reads this entry from storage.
+  if (!current) return;
+  const account = entryAccount(entry);
+  let c = current.get(account);
+  if (!c) {
+    c = { timestamp: entry.timestamp, account, checkedAt: {} };
+    current.set(account, c);
+  }
+  c.timestamp = entry.timestamp;
+  if (entry.api) {
+    c.api = entry.api;
+    c.checkedAt.api = entry.timestamp;
+  }
+  for (const [id, record] of Object.entries(entry.streams ?? {})) {
+    (c.streams ??= {})[id] = record;
+    c.checkedAt[id] = entry.timestamp;
+  }
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function observe(f: MetricFamily<HistogramSeries>, labels: Labels, ms: number): void {
+  const key = seriesKey(labels);
+  let s = f.series.get(key);
+  if (!s) {
+    s = { labels, counts: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 };
+    f.series.set(key, s);
+  }
+  const seconds = ms / 1000;
+  LATENCY_BUCKETS.forEach((le, i) => {
+    if (seconds <= le) s!.counts[i] += 1;
+  });
+  s.sum += seconds;
+  s.count += 1;
+}
+
+function inc(f: MetricFamily<CounterSeries>, labels: Labels): void {
+  const key = seriesKey(labels);
+  const s = f.series.get(key) ?? { labels, value: 0 };
+  s.value += 1;
+  f.series.set(key, s);
+}
+
+/** Accumulate one completed check into histograms and counters, and update the latest-check gauges. */
+export function recordEntry(entry: HistoryEntry): void {
+  updateCurrent(entry);
+  for (const t of entryTargets(entry)) {
+    const target = { account: t.account, kind: t.kind, target: t.target };
+    inc(counters.rd_checks_total, target);
+    if (!t.success) {
+      inc(counters.rd_check_failures_total, {
+        ...target,
+        failure_step: t.failureStep ?? "",
+        error_type: t.errorType ?? "",
+        cdn_host: t.cdnHost ?? "",
+      });
+    }
+    if (t.kind === "api") {
+      if (t.responseTimeMs != null) {
+        observe(histograms.rd_api_response_time_seconds, { account: t.account }, t.responseTimeMs);
+      }
+      continue;
+    }
+    const stream = { account: t.account, stream: t.target };
+    if (t.responseTimeMs != null) {
+      observe(histograms.rd_stream_api_response_time_seconds, stream, t.responseTimeMs);
+    }
+    if (t.ttfbMs != null) observe(histograms.rd_stream_ttfb_seconds, stream, t.ttfbMs);
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+function header(lines: string[], name: string, type: string, help: string): void {
+  lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+}
+
+function gauge(lines: string[], name: string, help: string, samples: [Labels, number][]): void {
+  header(lines, name, "gauge", help);
+  for (const [labels, value] of samples) lines.push(`${name}${formatLabels(labels)} ${value}`);
+}
+
+/** Full /metrics payload. */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  const byAccount = currentEntries();
+  const current = getStreamsConfig()
+    .accounts.map((a) => byAccount.get(a.name))
+    .filter((e): e is CurrentEntry => e != null);
+  gauge(
+    lines,
+    "rd_api_up",
+    "Latest API check succeeded (1) or failed (0).",
+    current.flatMap((e): [Labels, number][] =>
+      e.api ? [[{ account: e.account! }, e.api.success ? 1 : 0]] : []
+    )
+  );
+  gauge(
+    lines,
+    "rd_stream_up",
+    "Latest stream check succeeded (1) or failed (0); unsupported checks are left out.",
+    current.flatMap((e) =>
+      Object.entries(e.streams ?? {})
+        .filter(([, s]) => !s.unsupported)
+        .map(([id, s]): [Labels, number] => [{ account: e.account!, stream: id }, s.success ? 1 : 0])
+    )
+  );
+  gauge(
+    lines,
+    "rd_last_check_timestamp_seconds",
+    "Unix time of the latest stored check, by account.",
+    current.map((e) => [{ account: e.account! }, new Date(e.timestamp).getTime() / 1000])
+  );
+
+  const st = getSchedulerState();
+  const now = Date.now();
+  gauge(lines, "rd_monitor_uptime_seconds", "Seconds since the monitor started.", [
+    [{}, (now - new Date(st.startTime).getTime()) / 1000],
+  ]);
+  gauge(
+    lines,
+    "rd_scheduler_last_run_age_seconds",
+    "Seconds since the scheduler last completed a check run.",
+    st.lastRun ? [[{}, (now - new Date(st.lastRun).getTime()) / 1000]] : []
+  );
+  gauge(lines, "rd_scheduler_last_error", "1 if the latest check run failed with an error.", [
+    [{}, st.lastError ? 1 : 0],
+  ]);
+  gauge(
+    lines,
+    "rd_scheduler_last_error_info",
+    "Message of the latest scheduler error, as a label.",
+    st.lastError ? [[{ error: st.lastError }, 1]] : []
+  );
+
+  for (const [name, f] of Object.entries(counters)) {
+    header(lines, name, "counter", f.help);
+    for (const s of f.series.values()) lines.push(`${name}${formatLabels(s.labels)} ${s.value}`);
+  }
+
+  for (const [name, f] of Object.entries(histograms)) {
+    header(lines, name, "histogram", f.help);
+    for (const s of f.series.values()) {
+      LATENCY_BUCKETS.forEach((le, i) => {
+        lines.push(`${name}_bucket${formatLabels({ ...s.labels, le: String(le) })} ${s.counts[i]}`);
+      });
+      lines.push(`${name}_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${s.count}`);
+      lines.push(`${name}_sum${formatLabels(s.labels)} ${s.sum}`);
+      lines.push(`${name}_count${formatLabels(s.labels)} ${s.count}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
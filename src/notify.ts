@@ -0,0 +1,243 @@
+/**
+ * Notifier: turns incident and alert transitions into down / recovery / reminder / alert messages
+ * and sends them to every configured channel. Delivery runs in the background; failures are logged only.
+ */
+
+import {
+  getDiscordNotifyConfig,
+  getNotifyReminderMinutes,
+  getNotifyTemplate,
+  getNtfyNotifyConfig,
+  getSlackNotifyConfig,
+  getSmtpConfig,
+  getTelegramNotifyConfig,
+  getWebhookNotifyConfig,
+} from "./config.js";
+import type { AlertTransition } from "./alerts.js";
+import { incidentAccount, listIncidents, type Incident, type IncidentTransition } from "./incidents.js";
+import { isSuppressed } from "./maintenance.js";
+import type { HistoryEntry } from "./storage.js";
+import { entryTargets, targetKey, type TargetRecord } from "./targets.js";
+import { createNtfyChannel } from "./notify/ntfy.js";
+import { createSmtpChannel } from "./notify/smtp.js";
+import { createTelegramChannel } from "./notify/telegram.js";
+import type { Notification, NotifyChannel, NotifyEvent } from "./notify/types.js";
+import { createDiscordChannel, createSlackChannel, createWebhookChannel } from "./notify/webhook.js";
+
+/** Channel names accepted by POST /notify/test. */
+export const CHANNEL_NAMES = ["webhook", "discord", "slack", "telegram", "ntfy", "smtp"] as const;
+
+const DEFAULT_TEMPLATES: Record<NotifyEvent, { title: string; text: string }> = {
+  down: {
+    title: "{{target}} is down",
+    text: "{{target}} is down since {{start}}. Step: {{failureStep}}, error: {{errorType}}, HTTP {{httpStatus}}, CDN {{cdnHost}}.",
+  },
+  recovery: {
+    title: "{{target}} recovered",
+    text: "{{target}} recovered after {{duration}} ({{failedChecks}} failed checks). Main failure step: {{failureStep}}, HTTP {{httpStatus}}, CDN {{cdnHost}}.",
+  },
+  reminder: {
+    title: "{{target}} still down",
+    text: "{{target}} has been down for {{duration}} ({{failedChecks}} failed checks). Step: {{failureStep}}, error: {{errorType}}, HTTP {{httpStatus}}, CDN {{cdnHost}}.",
+  },
+  alert: {
+    title: "Alert {{alert}} firing",
+    text: "{{message}} (value {{value}}).",
+  },
+  alert_resolved: {
+    title: "Alert {{alert}} resolved",
+    text: "{{message}} — back to normal (value {{value}}).",
+  },
+  test: {
+    title: "Test notification",
+    text: "Test message from real-debrid-uptime via {{channel}}. Step: {{failureStep}}, HTTP {{httpStatus}}, CDN {{cdnHost}}.",
+  },
+};
+
+/** Last reminder number sent per open incident id; see remindersDue(). */
+const remindersSent = new Map<number, number>();
+
+function log(msg: string, fields: Record<string, unknown>): void {
+  console.log(JSON.stringify({ msg, ...fields }));
+}
+
+/** Channels configured in env, built on each use so env changes apply. */
+function getChannels(): NotifyChannel[] {
+  const channels: NotifyChannel[] = [];
+  const webhook = getWebhookNotifyConfig();
+  if (webhook) channels.push(createWebhookChannel(webhook));
+  const discord = getDiscordNotifyConfig();
+  if (discord) channels.push(createDiscordChannel(discord));
+  const slack = getSlackNotifyConfig();
+  if (slack) channels.push(createSlackChannel(slack));
+  const telegram = getTelegramNotifyConfig();
+  if (telegram) channels.push(createTelegramChannel(telegram));
+  const ntfy = getNtfyNotifyConfig();
+  if (ntfy) channels.push(createNtfyChannel(ntfy));
+  const smtp = getSmtpConfig();
+  if (smtp) channels.push(createSmtpChannel(smtp));
+  return channels;
+}
+
+/** Names of the channels configured in env. */
+export function getChannelNames(): string[] {
+  return getChannels().map((c) => c.name);
+}
+
+export function formatDuration(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m}m ${s % 60}s`;
+  const h = Math.floor(m / 60);
+  if (h < 24) return `${h}h ${m % 60}m`;
+  return `${Math.floor(h / 24)}d ${h % 24}h`;
+}
+
+/** Replace {{name}} placeholders; unknown or empty values render as "-". */
+export function renderTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => vars[name] || "-");
+}
+
+function build(event: NotifyEvent, vars: Record<string, string>, timestamp: string): Notification {
+  const defaults = DEFAULT_TEMPLATES[event];
+  return {
+    event,
+    title: renderTemplate(getNotifyTemplate(`${event}_title`) ?? defaults.title, vars),
+    text: renderTemplate(getNotifyTemplate(event) ?? defaults.text, vars),
+    vars: { event, ...vars },
+    timestamp,
+  };
+}
+
+/**
+ * Template variables for an incident; the record supplies httpStatus / cdnHost of the check that triggered it.
+ * `target` is qualified by account ("alice/tv") except for the default account.
+ */
+function incidentVars(
+  incident: Incident,
+  record: TargetRecord | undefined,
+  nowIso: string
+): Record<string, string> {
+  const endIso = incident.end ?? nowIso;
+  const account = incidentAccount(incident);
+  return {
+    incidentId: String(incident.id),
+    account,
+    kind: incident.kind,
+    target: targetKey(account, incident.target === "api" ? "API" : incident.target),
+    start: incident.start,
+    end: incident.end ?? "",
+    duration: formatDuration(new Date(endIso).getTime() - new Date(incident.start).getTime()),
+    failedChecks: String(incident.failedChecks),
+    failureStep: record?.failureStep ?? incident.dominantFailureStep ?? "",
+    // API records have no errorType; their error message is the closest equivalent.
+    errorType: record?.errorType ?? incident.dominantErrorType ?? incident.lastError ?? "",
+    httpStatus: record?.httpStatus != null ? String(record.httpStatus) : "",
+    cdnHost: record?.cdnHost ?? incident.cdnHosts[incident.cdnHosts.length - 1] ?? "",
+    error: incident.lastError ?? "",
+  };
+}
+
+function dispatch(n: Notification, channels: NotifyChannel[] = getChannels()): void {
+  for (const channel of channels) {
+    channel.send(n).then(
+      () => log("notify_sent", { channel: channel.name, event: n.event, title: n.title }),
+      (err) =>
+        log("notify_error", {
+          channel: channel.name,
+          event: n.event,
+          error: err instanceof Error ? err.message : String(err),
+        })
+    );
+  }
+}
+
+/**
+ * Open incidents that crossed another reminder interval. The first time an incident is seen (e.g. after a
+ * restart) only records the current interval, so restarts do not re-send reminders.
+ */
+function remindersDue(entry: HistoryEntry, skip: Set<number>): Incident[] {
+  const everyMs = getNotifyReminderMinutes() * 60_000;
+  const open = listIncidents({ status: "open" });
+  const openIds = new Set(open.map((i) => i.id));
+  for (const id of remindersSent.keys()) if (!openIds.has(id)) remindersSent.delete(id);
+  if (everyMs <= 0) return [];
+  const nowMs = new Date(entry.timestamp).getTime();
+  const due: Incident[] = [];
+  for (const incident of open) {
+    const n = Math.floor((nowMs - new Date(incident.start).getTime()) / everyMs);
+    const sent = remindersSent.get(incident.id);
+    remindersSent.set(incident.id, n);
+    if (sent !== undefined && n > sent && !skip.has(incident.id)) due.push(incident);
+  }
+  return due;
+}
+
+/**
+ * Send notifications for one completed check: down / recovery per incident change, reminders for incidents
+ * still open, and alert fired / resolved. Targets under a maintenance window or silence are skipped.
+ * Never throws and never waits on delivery.
+ */
+export function notify(
+  entry: HistoryEntry,
+  incidents: IncidentTransition[],
+  alerts: AlertTransition[] = []
+): void {
+  try {
+    const channels = getChannels();
+    const opened = new Set(incidents.filter((t) => t.change === "opened").map((t) => t.incident.id));
+    const due = remindersDue(entry, opened);
+    if (channels.length === 0) return;
+    const atMs = new Date(entry.timestamp).getTime();
+
+    for (const t of incidents) {
+      if (isSuppressed(t.incident.target, atMs, incidentAccount(t.incident))) continue;
+      const event = t.change === "opened" ? "down" : "recovery";
+      dispatch(build(event, incidentVars(t.incident, t.record, entry.timestamp), entry.timestamp), channels);
+    }
+    const records = entryTargets(entry);
+    for (const incident of due) {
+      const account = incidentAccount(incident);
+      if (isSuppressed(incident.target, atMs, account)) continue;
+      const record = records.find((r) => r.account === account && r.target === incident.target);
+      dispatch(build("reminder", incidentVars(incident, record, entry.timestamp), entry.timestamp), channels);
+    }
+    for (const t of alerts) {
+      if (isSuppressed(t.alert.rule.target, atMs, t.alert.rule.account)) continue;
+      const vars = {
+        alert: t.alert.ruleId,
+        message: t.alert.message,
+        value: String(Math.round(t.alert.value * 100) / 100),
+        firedAt: t.alert.firedAt,
+        resolvedAt: t.alert.resolvedAt ?? "",
+      };
+      dispatch(build(t.change === "fired" ? "alert" : "alert_resolved", vars, entry.timestamp), channels);
+    }
+  } catch (err) {
+    log("notify_error", { error: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+/** Send a test message to one configured channel and wait for the result. */
+export async function sendTestNotification(
+  channelName: string
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const channel = getChannels().find((c) => c.name === channelName);
+  if (!channel) return { ok: false, error: `channel ${channelName} is not configured` };
+  const timestamp = new Date().toISOString();
+  const n = build(
+    "test",
+    { channel: channel.name, target: "test", failureStep: "cdn_head_failed", httpStatus: "503", cdnHost: "example-cdn.real-debrid.com" },
+    timestamp
+  );
+  try {
+    await channel.send(n);
+    log("notify_sent", { channel: channel.name, event: n.event, title: n.title });
+    return { ok: true };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    log("notify_error", { channel: channel.name, event: n.event, error });
+    return { ok: false, error };
+  }
+}
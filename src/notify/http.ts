@@ -0,0 +1,22 @@
+/**
+ * Shared HTTP POST for webhook-style channels.
+ */
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+/** POST a body and reject on network errors, timeouts and non-2xx responses. */
+export async function post(
+  url: string,
+  body: string,
+  headers: Record<string, string> = { "Content-Type": "application/json" }
+): Promise<void> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { method: "POST", headers, body, signal: controller.signal });
+    const text = await res.text().catch(() => "");
+    if (!res.ok) throw new Error(`HTTP ${res.status}${text ? `: ${text.slice(0, 200)}` : ""}`);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
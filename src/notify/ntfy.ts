@@ -0,0 +1,39 @@
+/**
+ * ntfy channel: plain-text publish to a topic URL, with title, priority and tags as headers.
+ */
+
+import { post } from "./http.js";
+import type { NotifyChannel, NotifyEvent } from "./types.js";
+
+const PRIORITY: Record<NotifyEvent, string> = {
+  down: "high",
+  reminder: "default",
+  alert: "high",
+  recovery: "default",
+  alert_resolved: "default",
+  test: "low",
+};
+
+const TAGS: Record<NotifyEvent, string> = {
+  down: "red_circle",
+  reminder: "warning",
+  alert: "warning",
+  recovery: "white_check_mark",
+  alert_resolved: "white_check_mark",
+  test: "test_tube",
+};
+
+export function createNtfyChannel(config: { url: string; token?: string }): NotifyChannel {
+  return {
+    name: "ntfy",
+    send: (n) =>
+      post(config.url, n.text, {
+        "Content-Type": "text/plain; charset=utf-8",
+        // Header values must be Latin-1; ntfy accepts RFC 2047 encoded titles.
+        Title: `=?UTF-8?B?${Buffer.from(n.title, "utf-8").toString("base64")}?=`,
+        Priority: PRIORITY[n.event],
+        Tags: TAGS[n.event],
+        ...(config.token && { Authorization: `Bearer ${config.token}` }),
+      }),
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * SMTP email channel with a minimal client over node:net / node:tls:
+ * EHLO, STARTTLS when offered (or implicit TLS), AUTH PLAIN/LOGIN, MAIL/RCPT/DATA, QUIT.
+ */
+
+import { connect as netConnect, type Socket } from "node:net";
+import { hostname } from "node:os";
+import { connect as tlsConnect } from "node:tls";
+import type { SmtpConfig } from "../config.js";
+import type { NotifyChannel } from "./types.js";
+
+const SESSION_TIMEOUT_MS = 30_000;
+
+interface Reply {
+  code: number;
+  lines: string[];
+}
+
+/** Reads multi-line SMTP replies from whichever socket is currently attached. */
+function createReplyReader() {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: Reply[] = [];
+  let waiter: { resolve: (r: Reply) => void; reject: (e: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf-8");
+    let nl: number;
+    while ((nl = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, nl).replace(/\r$/, "");
+      buffer = buffer.slice(nl + 1);
+      lines.push(line.slice(4));
+      // "250-..." continues a reply, "250 ..." (or a bare code) ends it.
+      if (line[3] !== "-") {
+        replies.push({ code: parseInt(line.slice(0, 3), 10), lines });
+        lines = [];
+      }
+    }
+    if (waiter && replies.length > 0) {
+      const w = waiter;
+      waiter = null;
+      w.resolve(replies.shift()!);
+    }
+  };
+  const onError = (err: Error) => {
+    failure = err;
+    if (waiter) {
+      const w = waiter;
+      waiter = null;
+      w.reject(err);
+    }
+  };
+  const onClose = () => onError(new Error("SMTP connection closed"));
+
+  return {
+    attach(socket: Socket) {
+      socket.on("data", onData);
+      socket.on("error", onError);
+      socket.on("close", onClose);
+    },
+    detach(socket: Socket) {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    },
+    next(): Promise<Reply> {
+      if (replies.length > 0) return Promise.resolve(replies.shift()!);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => {
+        waiter = { resolve, reject };
+      });
+    },
+  };
+}
+
+function waitConnected(socket: Socket, event: "connect" | "secureConnect"): Promise<void> {
+  return new Promise((resolve, reject) => {
+    socket.once(event, () => {
+      socket.off("error", reject);
+      resolve();
+    });
+    socket.once("error", reject);
+  });
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`;
+}
+
+/** RFC 5322 message with a base64 text/plain body (safe for any UTF-8 and line length). */
+export function buildMessage(from: string, to: string[], subject: string, text: string): string {
+  const body = Buffer.from(text.replace(/\r?\n/g, "\r\n"), "utf-8").toString("base64");
+  const domain = from.includes("@") ? from.slice(from.lastIndexOf("@") + 1) : "localhost";
+  return [
+    `From: ${from}`,
+    `To: ${to.join(", ")}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${Date.now()}.${Math.random().toString(36).slice(2)}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    ...(body.match(/.{1,76}/g) ?? []),
+  ].join("\r\n");
+}
+
+/** Send one email; rejects on any unexpected reply, connection error or timeout. */
+export async function sendMail(config: SmtpConfig, subject: string, text: string): Promise<void> {
+  const reader = createReplyReader();
+  let socket: Socket = config.secure
+    ? tlsConnect({ host: config.host, port: config.port, servername: config.host })
+    : netConnect({ host: config.host, port: config.port });
+  const timer = setTimeout(
+    () => socket.destroy(new Error(`SMTP timeout after ${SESSION_TIMEOUT_MS}ms`)),
+    SESSION_TIMEOUT_MS
+  );
+  reader.attach(socket);
+
+  const expect = async (codes: number[], what: string): Promise<Reply> => {
+    const reply = await reader.next();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${what} failed: ${reply.code} ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  };
+  const command = async (line: string, codes: number[], what = line.split(" ")[0]) => {
+    socket.write(`${line}\r\n`);
+    return expect(codes, what);
+  };
+
+  try {
+    await waitConnected(socket, config.secure ? "secureConnect" : "connect");
+    await expect([220], "greeting");
+    const helo = `EHLO ${hostname() || "localhost"}`;
+    let ehlo = await command(helo, [250]);
+
+    if (!config.secure && ehlo.lines.some((l) => /^STARTTLS\b/i.test(l))) {
+      await command("STARTTLS", [220]);
+      reader.detach(socket);
+      socket = tlsConnect({ socket, servername: config.host });
+      reader.attach(socket);
+      await waitConnected(socket, "secureConnect");
+      ehlo = await command(helo, [250]);
+    }
+
+    if (config.user && config.pass) {
+      const auth = ehlo.lines.find((l) => /^AUTH\b/i.test(l))?.toUpperCase() ?? "";
+      if (auth.includes("PLAIN") || !auth.includes("LOGIN")) {
+        const token = Buffer.from(`\0${config.user}\0${config.pass}`, "utf-8").toString("base64");
+        await command(`AUTH PLAIN ${token}`, [235], "AUTH");
+      } else {
+        await command("AUTH LOGIN", [334], "AUTH");
+        await command(Buffer.from(config.user, "utf-8").toString("base64"), [334], "AUTH");
+        await command(Buffer.from(config.pass, "utf-8").toString("base64"), [235], "AUTH");
+      }
+    }
+
+    await command(`MAIL FROM:<${config.from}>`, [250], "MAIL FROM");
+    for (const rcpt of config.to) await command(`RCPT TO:<${rcpt}>`, [250, 251], "RCPT TO");
+    await command("DATA", [354]);
+    // Dot-stuffing: a line starting with "." gets an extra "." (base64 bodies never do, headers might).
+    const message = buildMessage(config.from, config.to, subject, text).replace(/^\./gm, "..");
+    await command(`${message}\r\n.`, [250], "DATA");
+    await command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    clearTimeout(timer);
+    reader.detach(socket);
+    socket.on("error", () => {});
+    socket.end();
+  }
+}
+
+export function createSmtpChannel(config: SmtpConfig): NotifyChannel {
+  return {
+    name: "smtp",
+    send: (n) => sendMail(config, n.title, n.text),
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Telegram Bot API channel (sendMessage).
+ */
+
+import { post } from "./http.js";
+import type { NotifyChannel } from "./types.js";
+
+export function createTelegramChannel(config: {
+  apiUrl: string;
+  botToken: string;
+  chatId: string;
+}): NotifyChannel {
+  const url = `${config.apiUrl.replace(/\/$/, "")}/bot${config.botToken}/sendMessage`;
+  return {
+    name: "telegram",
+    send: (n) =>
+      post(
+        url,
+        JSON.stringify({
+          chat_id: config.chatId,
+          text: `${n.title}\n${n.text}`,
+          disable_web_page_preview: true,
+        })
+      ),
+  };
+}
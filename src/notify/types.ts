@@ -0,0 +1,23 @@
+/**
+ * Notifier contract: a rendered message and a channel that delivers it.
+ */
+
+export type NotifyEvent = "down" | "recovery" | "reminder" | "alert" | "alert_resolved" | "test";
+
+export interface Notification {
+  event: NotifyEvent;
+  /** Short subject line (email subject, ntfy title). */
+  title: string;
+  /** Rendered message template. */
+  text: string;
+  /** Template variables, also sent as-is by the generic webhook. */
+  vars: Record<string, string>;
+  timestamp: string;
+}
+
+export interface NotifyChannel {
+  /** Stable name used by POST /notify/test?channel=. */
+  name: string;
+  /** Rejects when delivery fails. */
+  send(n: Notification): Promise<void>;
+}
@@ -0,0 +1,32 @@
+/**
+ * Webhook channels: generic JSON, Discord and Slack incoming webhooks.
+ */
+
+import { post } from "./http.js";
+import type { NotifyChannel } from "./types.js";
+
+/** Generic webhook: the event, rendered title/text and every template variable as JSON. */
+export function createWebhookChannel(config: { url: string }): NotifyChannel {
+  return {
+    name: "webhook",
+    send: (n) =>
+      post(
+        config.url,
+        JSON.stringify({ event: n.event, title: n.title, text: n.text, timestamp: n.timestamp, ...n.vars })
+      ),
+  };
+}
+
+export function createDiscordChannel(config: { url: string }): NotifyChannel {
+  return {
+    name: "discord",
+    send: (n) => post(config.url, JSON.stringify({ content: `**${n.title}**\n${n.text}` })),
+  };
+}
+
+export function createSlackChannel(config: { url: string }): NotifyChannel {
+  return {
+    name: "slack",
+    send: (n) => post(config.url, JSON.stringify({ text: `*${n.title}*\n${n.text}` })),
+  };
+}
@@ -1,9 +1,24 @@
 /**
  * Real-Debrid API wrapper. All calls use timeouts and must not throw on API errors.
+ * Requests with the same API key share one token bucket (RD_RATE_LIMIT_PER_MINUTE, RD_RATE_LIMIT_BURST); after a
+ * 429 every request with that key waits for Retry-After (or an exponential backoff) before going out. Calls are
+ * counted per key and endpoint, so one account's limits never hold up another's.
  */
 
+import {
+  getAccountApiKey,
+  getRdRateLimitBurst,
+  getRdRateLimitPerMinute,
+  getStreamsConfig,
+} from "./config.js";
+
 const BASE_URL = "https://api.real-debrid.com/rest/1.0";
 const REQUEST_TIMEOUT_MS = 30_000;
+/** Longest a request waits for a token or a 429 backoff; beyond that it fails locally with 429. */
+const MAX_QUEUE_WAIT_MS = REQUEST_TIMEOUT_MS;
+/** Backoff after a 429 without Retry-After; doubled for each further 429 in a row. */
+const DEFAULT_BACKOFF_MS = 5_000;
+const MAX_BACKOFF_MS = 5 * 60_000;
 
 export interface ApiHealthResult {
   success: boolean;
@@ -32,12 +47,15 @@ export interface UnrestrictResult {
   host: string;
 }
 
-/** Instant availability: hash -> host -> array of file ID variants. */
+/** Instant availability: hash -> host -> array of variants, each mapping file ID -> file. */
 export type InstantAvailabilityResponse = Record<
   string,
-  Record<string, Record<string, { filename: string; filesize: number }[]>>
+  Record<string, Record<string, { filename: string; filesize: number }>[]>
 >;
 
+/** Real-Debrid error_code for endpoints disabled for the account (or everyone). */
+const DISABLED_ENDPOINT_CODE = 37;
+
 function authHeader(token: string): Record<string, string> {
   return { Authorization: `Bearer ${token}` };
 }
@@ -51,16 +69,205 @@ function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
   ]);
 }
 
+export interface EndpointCallStats {
+  /** Requests sent to Real-Debrid. */
+  calls: number;
+  /** Responses with status 429. */
+  rateLimited: number;
+  /** Requests not sent because the wait for the rate limit would have been too long. */
+  throttled: number;
+}
+
+/** Limiter state and counters of one account's API key. */
+export interface RdAccountStatus {
+  tokens: number;
+  /** End of the current 429 backoff, or null. */
+  backoffUntil: string | null;
+  endpoints: Record<string, EndpointCallStats>;
+}
+
+export interface RdClientStatus {
+  limitPerMinute: number;
+  burst: number;
+  /** By account name; accounts without a key are left out. */
+  accounts: Record<string, RdAccountStatus>;
+}
+
+/** Token bucket, 429 backoff and call counters of one API key. */
+interface Limiter {
+  endpointStats: Record<string, EndpointCallStats>;
+  tokens: number;
+  lastRefillMs: number;
+  backoffUntilMs: number;
+  consecutive429: number;
+  /** Requests take tokens one at a time, in call order. */
+  queue: Promise<unknown>;
+}
+
+/** Keyed by API key. */
+const limiters = new Map<string, Limiter>();
+
+function limiterFor(token: string): Limiter {
+  let limiter = limiters.get(token);
+  if (!limiter) {
+    limiter = {
+      endpointStats: {},
+      tokens: getRdRateLimitBurst(),
+      lastRefillMs: Date.now(),
+      backoffUntilMs: 0,
+      consecutive429: 0,
+      queue: Promise.resolve(),
+    };
+    limiters.set(token, limiter);
+  }
+  return limiter;
+}
+
+/** Resolves after `ms`, or early when `signal` aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+function refill(limiter: Limiter, nowMs: number): void {
+  const perMs = getRdRateLimitPerMinute() / 60_000;
+  limiter.tokens = Math.min(
+    getRdRateLimitBurst(),
+    limiter.tokens + (nowMs - limiter.lastRefillMs) * perMs
+  );
+  limiter.lastRefillMs = nowMs;
+}
+
+/**
+ * Wait for a token and for any 429 backoff; false when that would take longer than MAX_QUEUE_WAIT_MS or
+ * `signal` aborts first (no token is taken then).
+ */
+function acquire(limiter: Limiter, signal?: AbortSignal): Promise<boolean> {
+  const turn = limiter.queue.then(async () => {
+    for (;;) {
+      if (signal?.aborted) return false;
+      const nowMs = Date.now();
+      refill(limiter, nowMs);
+      let waitMs = limiter.backoffUntilMs - nowMs;
+      if (waitMs <= 0) {
+        if (limiter.tokens >= 1) {
+          limiter.tokens -= 1;
+          return true;
+        }
+        waitMs = Math.ceil((1 - limiter.tokens) / (getRdRateLimitPerMinute() / 60_000));
+      }
+      if (waitMs > MAX_QUEUE_WAIT_MS) return false;
+      await sleep(waitMs, signal);
+    }
+  });
+  limiter.queue = turn;
+  return turn;
+}
+
+/** Retry-After as delay in ms (delta-seconds or HTTP date), or null when missing or invalid. */
+function parseRetryAfter(value: string | null, nowMs: number): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const dateMs = new Date(value).getTime();
+  return Number.isNaN(dateMs) ? null : Math.max(0, dateMs - nowMs);
+}
+
+function statsFor(limiter: Limiter, endpoint: string): EndpointCallStats {
+  return (limiter.endpointStats[endpoint] ??= { calls: 0, rateLimited: 0, throttled: 0 });
+}
+
+/**
+ * Request to the Real-Debrid API (path relative to BASE_URL), paced by the limiter of `token` (the caller still
+ * sends it in the Authorization header). `onSend` runs right before the request
+ * goes out, after any wait, so callers can time the request itself. When the wait would be too long a local
+ * 429 response is returned instead of calling the API; when `init.signal` aborts, this rejects like fetch.
+ */
+async function rdFetch(
+  token: string,
+  endpoint: string,
+  path: string,
+  init: RequestInit,
+  onSend?: () => void
+): Promise<Response> {
+  const limiter = limiterFor(token);
+  const stats = statsFor(limiter, endpoint);
+  if (!(await acquire(limiter, init.signal ?? undefined))) {
+    if (init.signal?.aborted) throw new Error("aborted");
+    stats.throttled += 1;
+    return new Response(JSON.stringify({ error: "rate limited: waiting for Real-Debrid backoff" }), {
+      status: 429,
+      statusText: "Too Many Requests",
+    });
+  }
+  stats.calls += 1;
+  onSend?.();
+  const res = await withTimeout(fetch(`${BASE_URL}${path}`, init), REQUEST_TIMEOUT_MS);
+  if (res.status === 429) {
+    stats.rateLimited += 1;
+    limiter.consecutive429 += 1;
+    const nowMs = Date.now();
+    const backoffMs =
+      parseRetryAfter(res.headers.get("retry-after"), nowMs) ??
+      Math.min(DEFAULT_BACKOFF_MS * 2 ** (limiter.consecutive429 - 1), MAX_BACKOFF_MS);
+    limiter.backoffUntilMs = Math.max(limiter.backoffUntilMs, nowMs + backoffMs);
+    console.log(JSON.stringify({ msg: "rd_rate_limited", endpoint, backoffMs }));
+  } else {
+    limiter.consecutive429 = 0;
+  }
+  return res;
+}
+
+/** Total requests sent with `token` per endpoint since start (see EndpointCallStats.calls). */
+export function getCallCounts(token: string): Record<string, number> {
+  const { endpointStats } = limiterFor(token);
+  return Object.fromEntries(Object.entries(endpointStats).map(([name, s]) => [name, s.calls]));
+}
+
+/** Rate limiter state and per-endpoint counters of each configured account for /health. */
+export function getRdClientStatus(): RdClientStatus {
+  const nowMs = Date.now();
+  const accounts: Record<string, RdAccountStatus> = {};
+  for (const account of getStreamsConfig().accounts) {
+    const token = getAccountApiKey(account);
+    if (!token) continue;
+    const limiter = limiterFor(token);
+    refill(limiter, nowMs);
+    accounts[account.name] = {
+      tokens: Math.floor(limiter.tokens),
+      backoffUntil:
+        limiter.backoffUntilMs > nowMs ? new Date(limiter.backoffUntilMs).toISOString() : null,
+      endpoints: Object.fromEntries(
+        Object.entries(limiter.endpointStats).map(([name, s]) => [name, { ...s }])
+      ),
+    };
+  }
+  return {
+    limitPerMinute: getRdRateLimitPerMinute(),
+    burst: getRdRateLimitBurst(),
+    accounts,
+  };
+}
+
 /** GET /user — used for API health check. */
 export async function checkUser(token: string): Promise<ApiHealthResult> {
-  const start = Date.now();
+  let start = Date.now();
   try {
-    const res = await withTimeout(
-      fetch(`${BASE_URL}/user`, {
-        method: "GET",
-        headers: { ...authHeader(token), Accept: "application/json" },
-      }),
-      REQUEST_TIMEOUT_MS
+    const res = await rdFetch(
+      token,
+      "user",
+      "/user",
+      { method: "GET", headers: { ...authHeader(token), Accept: "application/json" } },
+      () => {
+        start = Date.now();
+      }
     );
     const responseTimeMs = Date.now() - start;
     const httpStatus = res.status;
@@ -99,7 +306,8 @@ export interface DownloadListItem {
 }
 
 export async function getDownloadsList(
-  token: string
+  token: string,
+  signal?: AbortSignal
 ): Promise<{
   success: boolean;
   downloads?: DownloadListItem[];
@@ -107,13 +315,11 @@ export async function getDownloadsList(
   error?: string;
 }> {
   try {
-    const res = await withTimeout(
-      fetch(`${BASE_URL}/downloads?limit=100`, {
-        method: "GET",
-        headers: { ...authHeader(token), Accept: "application/json" },
-      }),
-      REQUEST_TIMEOUT_MS
-    );
+    const res = await rdFetch(token, "downloads", "/downloads?limit=100", {
+      method: "GET",
+      headers: { ...authHeader(token), Accept: "application/json" },
+      signal,
+    });
     const httpStatus = res.status;
     if (!res.ok) {
       let error: string | undefined;
@@ -166,7 +372,8 @@ export interface CacheListItem {
 }
 
 export async function getCacheList(
-  token: string
+  token: string,
+  signal?: AbortSignal
 ): Promise<{
   success: boolean;
   items?: CacheListItem[];
@@ -174,13 +381,11 @@ export async function getCacheList(
   error?: string;
 }> {
   try {
-    const res = await withTimeout(
-      fetch(`${BASE_URL}/torrents?limit=100`, {
-        method: "GET",
-        headers: { ...authHeader(token), Accept: "application/json" },
-      }),
-      REQUEST_TIMEOUT_MS
-    );
+    const res = await rdFetch(token, "torrents", "/torrents?limit=100", {
+      method: "GET",
+      headers: { ...authHeader(token), Accept: "application/json" },
+      signal,
+    });
     const httpStatus = res.status;
     if (!res.ok) {
       let error: string | undefined;
@@ -219,33 +424,58 @@ export async function getCacheList(
   }
 }
 
-/** GET /torrents/instantAvailability/{hash} — check if hash is instantly available. */
+/**
+ * GET /torrents/instantAvailability/{hash} — check if hash is instantly available. `success` means the API
+ * answered; `disabled` is set when Real-Debrid reports the endpoint as disabled (error_code 37).
+ */
 export async function getInstantAvailability(
   token: string,
-  hash: string
-): Promise<{ available: boolean; data?: InstantAvailabilityResponse }> {
+  hash: string,
+  signal?: AbortSignal
+): Promise<{
+  success: boolean;
+  available: boolean;
+  data?: InstantAvailabilityResponse;
+  httpStatus?: number;
+  disabled?: boolean;
+  error?: string;
+}> {
   try {
-    const res = await withTimeout(
-      fetch(`${BASE_URL}/torrents/instantAvailability/${hash}`, {
-        method: "GET",
-        headers: { ...authHeader(token), Accept: "application/json" },
-      }),
-      REQUEST_TIMEOUT_MS
+    const res = await rdFetch(
+      token,
+      "torrents/instantAvailability",
+      `/torrents/instantAvailability/${hash}`,
+      { method: "GET", headers: { ...authHeader(token), Accept: "application/json" }, signal }
     );
     if (!res.ok) {
-      return { available: false };
+      const body = (await res.json().catch(() => ({}))) as { error?: string; error_code?: number };
+      return {
+        success: false,
+        available: false,
+        httpStatus: res.status,
+        ...(body.error && { error: body.error }),
+        ...((body.error_code === DISABLED_ENDPOINT_CODE || body.error === "disabled_endpoint") && {
+          disabled: true,
+        }),
+      };
     }
     const data = (await res.json()) as InstantAvailabilityResponse;
     const hashLower = hash.toLowerCase();
     const forHash = data[hashLower] ?? data[hash];
-    if (!forHash || typeof forHash !== "object") return { available: false };
+    if (!forHash || typeof forHash !== "object") {
+      return { success: true, available: false, data, httpStatus: res.status };
+    }
     const hosts = Object.keys(forHash);
     const hasFiles = hosts.some(
       (h) => Array.isArray(forHash[h]) && forHash[h].length > 0
     );
-    return { available: hasFiles, data };
-  } catch {
-    return { available: false };
+    return { success: true, available: hasFiles, data, httpStatus: res.status };
+  } catch (err) {
+    return {
+      success: false,
+      available: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
   }
 }
 
@@ -260,12 +490,11 @@ export async function getInstantAvailabilityRaw(
   error?: string;
 }> {
   try {
-    const res = await withTimeout(
-      fetch(`${BASE_URL}/torrents/instantAvailability/${hash}`, {
-        method: "GET",
-        headers: { ...authHeader(token), Accept: "application/json" },
-      }),
-      REQUEST_TIMEOUT_MS
+    const res = await rdFetch(
+      token,
+      "torrents/instantAvailability",
+      `/torrents/instantAvailability/${hash}`,
+      { method: "GET", headers: { ...authHeader(token), Accept: "application/json" } }
     );
     const httpStatus = res.status;
     const raw = await res.json();
@@ -284,22 +513,21 @@ export async function getInstantAvailabilityRaw(
 /** POST /torrents/addMagnet — add magnet by info hash. */
 export async function addMagnet(
   token: string,
-  hash: string
+  hash: string,
+  signal?: AbortSignal
 ): Promise<{ success: boolean; id?: string; uri?: string; httpStatus?: number }> {
   const magnet = `magnet:?xt=urn:btih:${hash}`;
   try {
-    const res = await withTimeout(
-      fetch(`${BASE_URL}/torrents/addMagnet`, {
-        method: "POST",
-        headers: {
-          ...authHeader(token),
-          "Content-Type": "application/x-www-form-urlencoded",
-          Accept: "application/json",
-        },
-        body: new URLSearchParams({ magnet }),
-      }),
-      REQUEST_TIMEOUT_MS
-    );
+    const res = await rdFetch(token, "torrents/addMagnet", "/torrents/addMagnet", {
+      method: "POST",
+      headers: {
+        ...authHeader(token),
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+      },
+      body: new URLSearchParams({ magnet }),
+      signal,
+    });
     const httpStatus = res.status;
     if (res.status !== 201) {
       return { success: false, httpStatus };
@@ -315,20 +543,19 @@ export async function addMagnet(
 export async function selectFiles(
   token: string,
   cacheId: string,
-  files: string
+  files: string,
+  signal?: AbortSignal
 ): Promise<{ success: boolean; httpStatus?: number }> {
   try {
-    const res = await withTimeout(
-      fetch(`${BASE_URL}/torrents/selectFiles/${cacheId}`, {
-        method: "POST",
-        headers: {
-          ...authHeader(token),
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: new URLSearchParams({ files }),
-      }),
-      REQUEST_TIMEOUT_MS
-    );
+    const res = await rdFetch(token, "torrents/selectFiles", `/torrents/selectFiles/${cacheId}`, {
+      method: "POST",
+      headers: {
+        ...authHeader(token),
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ files }),
+      signal,
+    });
     const httpStatus = res.status;
     return { success: res.ok || res.status === 202, httpStatus };
   } catch {
@@ -339,20 +566,19 @@ export async function selectFiles(
 /** GET /torrents/info/{id} — get cache item info and links. */
 export async function getCacheInfo(
   token: string,
-  cacheId: string
+  cacheId: string,
+  signal?: AbortSignal
 ): Promise<{
   success: boolean;
   info?: CacheInfoResult;
   httpStatus?: number;
 }> {
   try {
-    const res = await withTimeout(
-      fetch(`${BASE_URL}/torrents/info/${cacheId}`, {
-        method: "GET",
-        headers: { ...authHeader(token), Accept: "application/json" },
-      }),
-      REQUEST_TIMEOUT_MS
-    );
+    const res = await rdFetch(token, "torrents/info", `/torrents/info/${cacheId}`, {
+      method: "GET",
+      headers: { ...authHeader(token), Accept: "application/json" },
+      signal,
+    });
     const httpStatus = res.status;
     if (!res.ok) return { success: false, httpStatus };
     const info = (await res.json()) as CacheInfoResult;
@@ -362,28 +588,27 @@ export async function getCacheInfo(
   }
 }
 
-/** DELETE /torrents/delete/{id} — remove item from cache list. */
+/** DELETE /torrents/delete/{id} — remove item from cache list (204 on success). */
 export async function deleteFromCache(
   token: string,
   cacheId: string
-): Promise<void> {
+): Promise<{ success: boolean; httpStatus?: number }> {
   try {
-    await withTimeout(
-      fetch(`${BASE_URL}/torrents/delete/${cacheId}`, {
-        method: "DELETE",
-        headers: authHeader(token),
-      }),
-      REQUEST_TIMEOUT_MS
-    );
+    const res = await rdFetch(token, "torrents/delete", `/torrents/delete/${cacheId}`, {
+      method: "DELETE",
+      headers: authHeader(token),
+    });
+    return { success: res.ok, httpStatus: res.status };
   } catch {
-    // ignore
+    return { success: false };
   }
 }
 
 /** POST /unrestrict/link — unrestrict a host link. */
 export async function unrestrictLink(
   token: string,
-  link: string
+  link: string,
+  signal?: AbortSignal
 ): Promise<{
   success: boolean;
   download?: string;
@@ -391,18 +616,16 @@ export async function unrestrictLink(
   httpStatus?: number;
 }> {
   try {
-    const res = await withTimeout(
-      fetch(`${BASE_URL}/unrestrict/link`, {
-        method: "POST",
-        headers: {
-          ...authHeader(token),
-          "Content-Type": "application/x-www-form-urlencoded",
-          Accept: "application/json",
-        },
-        body: new URLSearchParams({ link }),
-      }),
-      REQUEST_TIMEOUT_MS
-    );
+    const res = await rdFetch(token, "unrestrict/link", "/unrestrict/link", {
+      method: "POST",
+      headers: {
+        ...authHeader(token),
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+      },
+      body: new URLSearchParams({ link }),
+      signal,
+    });
     const httpStatus = res.status;
     if (!res.ok) return { success: false, httpStatus };
     const body = (await res.json()) as UnrestrictResult;
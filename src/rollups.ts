@@ -0,0 +1,137 @@
+/**
+ * Downsampling: raw entries → hourly rollups → daily rollups (UTC buckets).
+ * Aggregates are mergeable (counts and latency sum/count), so days are built from hours.
+ */
+
+import type {
+  HistoryEntry,
+  LatencyAggregate,
+  Rollup,
+  RollupResolution,
+} from "./storage/types.js";
+import { entryTargets, isCounted } from "./targets.js";
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+export function bucketSizeMs(resolution: RollupResolution): number {
+  return resolution === "hour" ? HOUR_MS : DAY_MS;
+}
+
+/** Start of the UTC bucket containing `ms`. */
+export function bucketStartMs(ms: number, resolution: RollupResolution): number {
+  const size = bucketSizeMs(resolution);
+  return Math.floor(ms / size) * size;
+}
+
+function addLatency(agg: LatencyAggregate | undefined, value: number): LatencyAggregate {
+  if (!agg) return { min: value, max: value, sum: value, count: 1 };
+  return {
+    min: Math.min(agg.min, value),
+    max: Math.max(agg.max, value),
+    sum: agg.sum + value,
+    count: agg.count + 1,
+  };
+}
+
+function mergeLatency(
+  a: LatencyAggregate | undefined,
+  b: LatencyAggregate | undefined
+): LatencyAggregate | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    min: Math.min(a.min, b.min),
+    max: Math.max(a.max, b.max),
+    sum: a.sum + b.sum,
+    count: a.count + b.count,
+  };
+}
+
+function addCounts(into: Record<string, number>, from: Record<string, number>): void {
+  for (const [key, n] of Object.entries(from)) into[key] = (into[key] ?? 0) + n;
+}
+
+function emptyRollup(
+  resolution: RollupResolution,
+  startMs: number,
+  account: string,
+  kind: Rollup["kind"],
+  target: string
+): Rollup {
+  return {
+    resolution,
+    bucketStart: new Date(startMs).toISOString(),
+    account,
+    kind,
+    target,
+    checks: 0,
+    successes: 0,
+    failures: 0,
+    failuresByStep: {},
+    failuresByErrorType: {},
+  };
+}
+
+/** Hourly rollups for every (hour, account, target) that has at least one check in `entries`. */
+export function rollupHours(entries: HistoryEntry[]): Rollup[] {
+  const byKey = new Map<string, Rollup>();
+  for (const entry of entries) {
+    const ms = new Date(entry.timestamp).getTime();
+    if (Number.isNaN(ms)) continue;
+    const startMs = bucketStartMs(ms, "hour");
+    for (const t of entryTargets(entry)) {
+      // Maintenance and unsupported checks stay in raw history but do not count toward aggregates (uptime math).
+      if (!isCounted(t)) continue;
+      const key = `${startMs}|${t.account}|${t.kind}|${t.target}`;
+      const r = byKey.get(key) ?? emptyRollup("hour", startMs, t.account, t.kind, t.target);
+      r.checks += 1;
+      if (t.success) {
+        r.successes += 1;
+      } else {
+        r.failures += 1;
+        if (t.failureStep) {
+          r.failuresByStep[t.failureStep] = (r.failuresByStep[t.failureStep] ?? 0) + 1;
+        }
+        const errorType = t.errorType ?? "unknown";
+        r.failuresByErrorType[errorType] = (r.failuresByErrorType[errorType] ?? 0) + 1;
+      }
+      if (t.responseTimeMs != null) r.responseTimeMs = addLatency(r.responseTimeMs, t.responseTimeMs);
+      if (t.ttfbMs != null) r.ttfbMs = addLatency(r.ttfbMs, t.ttfbMs);
+      byKey.set(key, r);
+    }
+  }
+  return [...byKey.values()];
+}
+
+/** Daily rollups merged from hourly ones. */
+export function rollupDays(hours: Rollup[]): Rollup[] {
+  const byKey = new Map<string, Rollup>();
+  for (const h of hours) {
+    const startMs = bucketStartMs(new Date(h.bucketStart).getTime(), "day");
+    const key = `${startMs}|${h.account}|${h.kind}|${h.target}`;
+    const d = byKey.get(key) ?? emptyRollup("day", startMs, h.account, h.kind, h.target);
+    d.checks += h.checks;
+    d.successes += h.successes;
+    d.failures += h.failures;
+    addCounts(d.failuresByStep, h.failuresByStep);
+    addCounts(d.failuresByErrorType, h.failuresByErrorType);
+    const rt = mergeLatency(d.responseTimeMs, h.responseTimeMs);
+    if (rt) d.responseTimeMs = rt;
+    const ttfb = mergeLatency(d.ttfbMs, h.ttfbMs);
+    if (ttfb) d.ttfbMs = ttfb;
+    byKey.set(key, d);
+  }
+  return [...byKey.values()];
+}
+
+/** API shape: latency as min/avg/max (avg rounded to ms) instead of sum. */
+export function presentRollup(r: Rollup): Record<string, unknown> {
+  const latency = (agg?: LatencyAggregate) =>
+    agg && { min: agg.min, avg: Math.round(agg.sum / agg.count), max: agg.max, count: agg.count };
+  return {
+    ...r,
+    ...(r.responseTimeMs && { responseTimeMs: latency(r.responseTimeMs) }),
+    ...(r.ttfbMs && { ttfbMs: latency(r.ttfbMs) }),
+  };
+}
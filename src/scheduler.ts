@@ -1,43 +1,209 @@
 /**
- * Interval logic: runs checks every N seconds; N is reloadable at runtime.
- * Graceful shutdown: finishes in-flight check before exiting.
+ * Scheduling: targets (API check, streams) of one account sharing a schedule form a job with its own timer; each
+ * run writes one HistoryEntry for the job's targets, keyed by account. The default schedule runs every
+ * CHECK_INTERVAL_SECONDS (reloadable at runtime); streams and the API check can set their own interval or cron
+ * expression plus jitter.
+ * Graceful shutdown: finishes in-flight checks before exiting.
  */
 
-import { getApiKey, getCheckIntervalSeconds, getStreamsConfig } from "./config.js";
-import { checkUser } from "./rdClient.js";
+import {
+  getAccount,
+  getAccountApiKey,
+  getCheckDeadlineSeconds,
+  getCheckIntervalSeconds,
+  getCheckJitterSeconds,
+  getStreamConcurrency,
+  getStreamsConfig,
+  type CheckSchedule,
+  type StreamDef,
+} from "./config.js";
+import { nextCronTime, parseCron } from "./cron.js";
+import { checkUser, getCallCounts } from "./rdClient.js";
 import { checkStream } from "./streamChecker.js";
+import { cleanupLifecycleItems } from "./lifecycle.js";
 import { append, type HistoryEntry, type ApiRecord, type StreamRecord } from "./storage.js";
+import { recordEntry } from "./metrics.js";
+import { publish } from "./sinks.js";
+import { trackIncidents } from "./incidents.js";
+import { evaluateAlerts } from "./alerts.js";
+import { notify } from "./notify.js";
+import { tagMaintenance } from "./maintenance.js";
+import { applyStates } from "./targetState.js";
+
+/** Real-Debrid API requests made by one check cycle. */
+export interface CycleApiCalls {
+  total: number;
+  byEndpoint: Record<string, number>;
+}
 
 export interface SchedulerState {
   lastRun: string | null;
   lastError: string | null;
   startTime: string;
+  /** Calls made by the latest run of each account, by account name. */
+  lastRunApiCalls: Record<string, CycleApiCalls>;
 }
 
 const state: SchedulerState = {
   lastRun: null,
   lastError: null,
   startTime: new Date().toISOString(),
+  lastRunApiCalls: {},
 };
 
-let timeoutId: ReturnType<typeof setTimeout> | null = null;
-let inFlight = false;
+/** Targets of one account sharing one schedule. */
+interface Job {
+  key: string;
+  account: string;
+  schedule: CheckSchedule;
+  api: boolean;
+  streams: StreamDef[];
+  timeoutId: ReturnType<typeof setTimeout> | null;
+  /** When the next run is due (ms); timers longer than MAX_TIMER_MS wake up early and re-arm. */
+  dueMs: number;
+  inFlight: boolean;
+  /** Its group left the config while a run was in flight; dropped from `jobs` once that run finishes. */
+  retiring: boolean;
+}
+
+/** setTimeout cannot wait longer than about 24.8 days. */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const jobs = new Map<string, Job>();
 let stopping = false;
 
 export function getSchedulerState(): SchedulerState {
-  return { ...state };
+  return { ...state, lastRunApiCalls: { ...state.lastRunApiCalls } };
+}
+
+/**
+ * Calls made with `token` since `before` (a getCallCounts() snapshot). Other runs and manual checks of the same
+ * account meanwhile are included.
+ */
+function callsSince(token: string, before: Record<string, number>): CycleApiCalls {
+  const byEndpoint: Record<string, number> = {};
+  let total = 0;
+  for (const [endpoint, calls] of Object.entries(getCallCounts(token))) {
+    const n = calls - (before[endpoint] ?? 0);
+    if (n > 0) {
+      byEndpoint[endpoint] = n;
+      total += n;
+    }
+  }
+  return { total, byEndpoint };
+}
+
+async function checkOne(
+  token: string,
+  account: string,
+  stream: StreamDef,
+  signal: AbortSignal
+): Promise<StreamRecord> {
+  try {
+    const result = await checkStream(token, stream.id, stream, account, signal);
+    return {
+      success: result.success,
+      ...(result.apiResponseTimeMs != null && {
+        apiResponseTimeMs: result.apiResponseTimeMs,
+      }),
+      ...(result.ttfbMs != null && { ttfbMs: result.ttfbMs }),
+      ...(result.httpStatus != null && { httpStatus: result.httpStatus }),
+      ...(result.cdnHost != null && { cdnHost: result.cdnHost }),
+      ...(result.timing != null && { timing: result.timing }),
+      ...(result.errorType != null && { errorType: result.errorType }),
+      ...(result.failureStep != null && { failureStep: result.failureStep }),
+      ...(result.attempts != null && { attempts: result.attempts }),
+      ...(result.throughput != null && { throughput: result.throughput }),
+      ...(result.seek != null && { seek: result.seek }),
+      ...(result.lifecycle != null && { lifecycle: result.lifecycle }),
+      ...(result.instant != null && { instant: result.instant }),
+      ...(result.unsupported && { unsupported: true }),
+    };
+  } catch {
+    return { success: false, errorType: "unknown" };
+  }
+}
+
+/**
+ * Check all streams with at most STREAM_CONCURRENCY in flight. Streams still running (or not started) when
+ * CHECK_DEADLINE_SECONDS is up are cancelled and recorded as failed with failureStep "deadline_exceeded".
+ * Resolves only once every cancelled check has wound down (e.g. a lifecycle item was deleted), so the job
+ * stays in flight until then. Records keep the config order.
+ */
+async function checkStreams(
+  token: string,
+  account: string,
+  streams: StreamDef[]
+): Promise<Record<string, StreamRecord>> {
+  const done = new Map<string, StreamRecord>();
+  const controller = new AbortController();
+  let next = 0;
+  let expired = false;
+  const worker = async (): Promise<void> => {
+    while (!expired && next < streams.length) {
+      const stream = streams[next++];
+      const record = await checkOne(token, account, stream, controller.signal);
+      if (!expired) done.set(stream.id, record);
+    }
+  };
+  const workers = Array.from(
+    { length: Math.min(getStreamConcurrency(), streams.length) },
+    worker
+  );
+  let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<void>((resolve) => {
+    deadlineTimer = setTimeout(resolve, getCheckDeadlineSeconds() * 1000);
+  });
+  await Promise.race([Promise.all(workers), deadline]);
+  clearTimeout(deadlineTimer);
+  expired = true;
+  controller.abort();
+  await Promise.all(workers);
+
+  const records: Record<string, StreamRecord> = {};
+  const late: string[] = [];
+  for (const stream of streams) {
+    const record = done.get(stream.id);
+    if (record) {
+      records[stream.id] = record;
+    } else {
+      late.push(stream.id);
+      records[stream.id] = { success: false, errorType: "timeout", failureStep: "deadline_exceeded" };
+    }
+  }
+  if (late.length > 0) {
+    console.log(JSON.stringify({ msg: "check_deadline_exceeded", streams: late }));
+  }
+  return records;
+}
+
+/**
+ * Everything after a check, shared by scheduled runs and manual checks: tag maintenance, derive states, store
+ * the entry, then update metrics, incidents and alerts, notify and publish to the push sinks.
+ */
+export function recordCheck(entry: HistoryEntry): void {
+  tagMaintenance(entry);
+  applyStates(entry);
+  append(entry);
+  recordEntry(entry);
+  const incidentChanges = trackIncidents(entry);
+  const alertChanges = evaluateAlerts(entry);
+  notify(entry, incidentChanges, alertChanges);
+  publish(entry);
 }
 
-async function runCheck(): Promise<void> {
-  const token = getApiKey();
-  const config = getStreamsConfig();
+async function runCheck(job: Job): Promise<void> {
+  const account = getAccount(job.account);
+  const token = account && getAccountApiKey(account);
 
   const entry: HistoryEntry = {
     timestamp: new Date().toISOString(),
+    account: job.account,
   };
+  const callsBefore = token ? getCallCounts(token) : {};
 
   try {
-    if (config.apiCheck && token) {
+    if (job.api && token) {
       const apiResult = await checkUser(token);
       const apiRecord: ApiRecord = {
         success: apiResult.success,
@@ -48,62 +214,50 @@ async function runCheck(): Promise<void> {
       entry.api = apiRecord;
     }
 
-    if (config.streams.length > 0 && token) {
-      entry.streams = {};
-      for (const stream of config.streams) {
-        try {
-          const result = await checkStream(token, stream.id, stream);
-          const record: StreamRecord = {
-            success: result.success,
-            ...(result.apiResponseTimeMs != null && {
-              apiResponseTimeMs: result.apiResponseTimeMs,
-            }),
-            ...(result.ttfbMs != null && { ttfbMs: result.ttfbMs }),
-            ...(result.httpStatus != null && { httpStatus: result.httpStatus }),
-            ...(result.cdnHost != null && { cdnHost: result.cdnHost }),
-            ...(result.errorType != null && { errorType: result.errorType }),
-            ...(result.failureStep != null && { failureStep: result.failureStep }),
-          };
-          entry.streams[stream.id] = record;
-        } catch (err) {
-          entry.streams[stream.id] = {
-            success: false,
-            errorType: "unknown",
-          };
-        }
-      }
+    if (job.streams.length > 0 && token) {
+      // Retry deletes left over from earlier lifecycle checks before adding new items.
+      if (job.streams.some((s) => s.type === "lifecycle")) await cleanupLifecycleItems(job.account);
+      entry.streams = await checkStreams(token, job.account, job.streams);
     }
 
-    append(entry);
+    recordCheck(entry);
     state.lastRun = entry.timestamp;
     state.lastError = null;
+    const apiCalls = token ? callsSince(token, callsBefore) : { total: 0, byEndpoint: {} };
+    state.lastRunApiCalls[job.account] = apiCalls;
 
-    const streamCounts = entry.streams
-      ? Object.values(entry.streams).reduce(
-          (acc, s) => (s.success ? { ...acc, ok: acc.ok + 1 } : { ...acc, fail: acc.fail + 1 }),
-          { ok: 0, fail: 0 }
-        )
-      : { ok: 0, fail: 0 };
+    const streamCounts = { ok: 0, fail: 0, unsupported: 0 };
+    for (const s of Object.values(entry.streams ?? {})) {
+      if (s.success) streamCounts.ok += 1;
+      else if (s.unsupported) streamCounts.unsupported += 1;
+      else streamCounts.fail += 1;
+    }
     const logLine: Record<string, unknown> = {
       msg: "check_complete",
       timestamp: entry.timestamp,
-      api: entry.api?.success ? "ok" : "fail",
-      ...(entry.api && { apiStatus: entry.api.httpStatus, apiError: entry.api.error }),
+      account: job.account,
+      ...(entry.api && {
+        api: entry.api.success ? "ok" : "fail",
+        apiStatus: entry.api.httpStatus,
+        apiError: entry.api.error,
+      }),
       streams: streamCounts,
+      apiCalls: apiCalls.total,
     };
     if (entry.api?.httpStatus === 401) {
-      logLine.hint = "REAL_DEBRID_API_KEY may be invalid or expired — check .env and https://real-debrid.com/apitoken";
+      logLine.hint = `${account?.apiKeyEnv} may be invalid or expired — check .env and https://real-debrid.com/apitoken`;
     }
-      if (entry.streams && streamCounts.fail > 0) {
+    if (entry.streams && streamCounts.fail > 0) {
       const streamReasons: Record<string, string> = {};
       for (const [id, rec] of Object.entries(entry.streams)) {
         if (!rec.success && rec.failureStep) streamReasons[id] = rec.failureStep;
       }
       if (Object.keys(streamReasons).length) logLine.streamReasons = streamReasons;
       const streamRefs: Record<string, string> = {};
-      for (const s of config.streams) {
-        if (s.type === "hash" && "hash" in s) streamRefs[s.id] = s.hash;
+      for (const s of job.streams) {
+        if ((s.type === "hash" || s.type === "lifecycle") && "hash" in s) streamRefs[s.id] = s.hash;
         if (s.type === "download" && "url" in s) streamRefs[s.id] = s.url;
+        if (s.type === "instant" && "hashes" in s) streamRefs[s.id] = s.hashes.join(",");
       }
       if (Object.keys(streamRefs).length) logLine.streamRefs = streamRefs;
     }
@@ -113,42 +267,130 @@ async function runCheck(): Promise<void> {
     console.log(
       JSON.stringify({
         msg: "check_error",
+        account: job.account,
         error: state.lastError,
       })
     );
   } finally {
-    inFlight = false;
-    if (!stopping) scheduleNext();
+    job.inFlight = false;
+    if (job.retiring) jobs.delete(job.key);
+    if (!stopping) {
+      syncJobs();
+      for (const j of jobs.values()) if (!j.inFlight) scheduleNext(j);
+    }
   }
 }
 
-function scheduleNext(): void {
-  if (timeoutId != null) return;
-  const ms = getCheckIntervalSeconds() * 1000;
-  timeoutId = setTimeout(() => {
-    timeoutId = null;
-    if (!inFlight) {
-      inFlight = true;
-      runCheck();
+function scheduleKey(s: CheckSchedule): string {
+  return JSON.stringify([s.cron ?? null, s.intervalSeconds ?? null, s.jitterSeconds ?? null]);
+}
+
+/** Time of the next run after `nowMs`, or null when a cron expression never fires again. */
+function nextRunMs(s: CheckSchedule, nowMs: number): number | null {
+  const jitterMs = Math.random() * (s.jitterSeconds ?? getCheckJitterSeconds()) * 1000;
+  if (s.cron) {
+    const next = nextCronTime(parseCron(s.cron), nowMs);
+    return next != null ? next + jitterMs : null;
+  }
+  return nowMs + (s.intervalSeconds ?? getCheckIntervalSeconds()) * 1000 + jitterMs;
+}
+
+function arm(job: Job): void {
+  job.timeoutId = setTimeout(() => {
+    job.timeoutId = null;
+    if (Date.now() < job.dueMs) {
+      arm(job);
+      return;
     }
-  }, ms);
+    if (!job.inFlight) {
+      job.inFlight = true;
+      runCheck(job);
+    }
+  }, Math.min(Math.max(0, job.dueMs - Date.now()), MAX_TIMER_MS));
 }
 
+function scheduleNext(job: Job): void {
+  if (job.timeoutId != null) return;
+  const due = nextRunMs(job.schedule, Date.now());
+  if (due == null) return;
+  job.dueMs = due;
+  arm(job);
+}
+
+/**
+ * Group the configured targets by account and schedule: new groups get a job (not yet scheduled), removed groups
+ * stop (a job with a run in flight stays as retiring until it finishes, so stop() waits for it and a re-added group
+ * reuses it instead of starting a second run), existing jobs pick up their current targets.
+ */
+function syncJobs(): void {
+  const groups = new Map<
+    string,
+    { account: string; schedule: CheckSchedule; api: boolean; streams: StreamDef[] }
+  >();
+  for (const account of getStreamsConfig().accounts) {
+    const groupFor = (schedule: CheckSchedule) => {
+      const key = `${account.name}|${scheduleKey(schedule)}`;
+      let g = groups.get(key);
+      if (!g) {
+        g = { account: account.name, schedule, api: false, streams: [] };
+        groups.set(key, g);
+      }
+      return g;
+    };
+    if (account.apiCheck) groupFor(account.apiSchedule).api = true;
+    for (const stream of account.streams) {
+      const { intervalSeconds, cron, jitterSeconds } = stream;
+      groupFor({ intervalSeconds, cron, jitterSeconds }).streams.push(stream);
+    }
+  }
+
+  for (const [key, job] of jobs) {
+    if (groups.has(key)) continue;
+    if (job.timeoutId != null) {
+      clearTimeout(job.timeoutId);
+      job.timeoutId = null;
+    }
+    if (job.inFlight) job.retiring = true;
+    else jobs.delete(key);
+  }
+  for (const [key, g] of groups) {
+    const job = jobs.get(key);
+    if (job) {
+      job.retiring = false;
+      job.api = g.api;
+      job.streams = g.streams;
+    } else {
+      jobs.set(key, { key, ...g, timeoutId: null, dueMs: 0, inFlight: false, retiring: false });
+    }
+  }
+}
+
+/** Start all idle jobs: interval jobs run once right away, cron jobs wait for their first fire time. */
 export function start(): void {
-  if (inFlight) return;
-  inFlight = true;
-  runCheck();
+  stopping = false;
+  syncJobs();
+  for (const job of jobs.values()) {
+    if (job.inFlight || job.timeoutId != null) continue;
+    if (job.schedule.cron) {
+      scheduleNext(job);
+    } else {
+      job.inFlight = true;
+      runCheck(job);
+    }
+  }
 }
 
 export function stop(): Promise<void> {
   stopping = true;
-  if (timeoutId != null) {
-    clearTimeout(timeoutId);
-    timeoutId = null;
+  for (const job of jobs.values()) {
+    if (job.timeoutId != null) {
+      clearTimeout(job.timeoutId);
+      job.timeoutId = null;
+    }
   }
   return new Promise((resolve) => {
     const check = () => {
-      if (!inFlight) {
+      if (!isInFlight()) {
         resolve();
         return;
       }
@@ -159,5 +401,5 @@ export function stop(): Promise<void> {
 }
 
 export function isInFlight(): boolean {
-  return inFlight;
+  return [...jobs.values()].some((j) => j.inFlight);
 }
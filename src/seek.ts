@@ -0,0 +1,84 @@
+/**
+ * Seek probe: small range requests in the middle, near the end and at random offsets of the file, timed to
+ * the first body byte. Catches CDNs that serve the start of a file from cache but stall on cold ranges.
+ * Never throws.
+ */
+
+import type { SeekDef } from "./config.js";
+import type { SeekProbe, StreamSeek } from "./storage.js";
+
+const RANGE_BYTES = 64 * 1024;
+/** "end" probes start this far before the end of the file. */
+const END_MARGIN_BYTES = 1024 * 1024;
+const DEFAULT_RANDOM_OFFSETS = 1;
+const DEFAULT_SLOW_MS = 2000;
+const PROBE_TIMEOUT_MS = 30_000;
+
+function offsetsFor(fileSize: number, randomOffsets: number): [SeekProbe["position"], number][] {
+  const last = Math.max(0, fileSize - RANGE_BYTES);
+  const offsets: [SeekProbe["position"], number][] = [
+    ["middle", Math.floor(fileSize / 2)],
+    ["end", Math.max(0, fileSize - END_MARGIN_BYTES)],
+  ];
+  for (let i = 0; i < randomOffsets; i++) offsets.push(["random", Math.floor(Math.random() * last)]);
+  return offsets;
+}
+
+async function probe(
+  url: string,
+  position: SeekProbe["position"],
+  offset: number,
+  signal: AbortSignal | undefined
+): Promise<SeekProbe> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  const cancel = () => controller.abort();
+  signal?.addEventListener("abort", cancel, { once: true });
+  const start = Date.now();
+  try {
+    if (signal?.aborted) throw new Error("aborted");
+    const res = await fetch(url, {
+      method: "GET",
+      headers: { Range: `bytes=${offset}-${offset + RANGE_BYTES - 1}` },
+      redirect: "follow",
+      signal: controller.signal,
+    });
+    const reader = res.body?.getReader();
+    const first = await reader?.read();
+    const latencyMs = Date.now() - start;
+    await reader?.cancel();
+    const ok = (res.status === 206 || res.status === 200) && (first?.value?.byteLength ?? 0) > 0;
+    return { position, offset, latencyMs, httpStatus: res.status, ok };
+  } catch {
+    return { position, offset, latencyMs: Date.now() - start, httpStatus: 0, ok: false };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", cancel);
+  }
+}
+
+/**
+ * Probe `url` (a file of `fileSize` bytes) one range at a time. `headTtfbMs` is the TTFB of the HEAD at
+ * byte 0, used to tell a cold-range stall from a CDN that is slow everywhere. When `signal` aborts, the
+ * remaining offsets are skipped.
+ */
+export async function probeSeek(
+  url: string,
+  fileSize: number,
+  headTtfbMs: number,
+  def: SeekDef = {},
+  signal?: AbortSignal
+): Promise<StreamSeek> {
+  const slowMs = def.slowMs ?? DEFAULT_SLOW_MS;
+  const probes: SeekProbe[] = [];
+  for (const [position, offset] of offsetsFor(fileSize, def.randomOffsets ?? DEFAULT_RANDOM_OFFSETS)) {
+    probes.push(await probe(url, position, offset, signal));
+    if (signal?.aborted) break;
+  }
+  return {
+    fileSize,
+    probes,
+    maxLatencyMs: Math.max(...probes.map((p) => p.latencyMs)),
+    coldRangeStall: headTtfbMs < slowMs && probes.some((p) => !p.ok || p.latencyMs > slowMs),
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Push completed checks to time-series sinks (InfluxDB line protocol, OTLP/HTTP metrics).
+ * publish() only enqueues: each sink has a bounded on-disk buffer, flushes in batches on its own timer,
+ * and backs off on failure, so a sink outage never blocks or breaks the check loop.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  getInfluxConfig,
+  getOtlpConfig,
+  getSinkBatchSize,
+  getSinkBufferMaxEntries,
+  getSinkFlushIntervalSeconds,
+  getDataFilePath,
+} from "./config.js";
+import { loadEntries } from "./storage/jsonBackend.js";
+import type { HistoryEntry } from "./storage.js";
+import { createInfluxSender } from "./sinks/influx.js";
+import { createOtlpSender } from "./sinks/otlp.js";
+import type { SinkSender } from "./sinks/types.js";
+
+const REQUEST_TIMEOUT_MS = 15_000;
+const BACKOFF_BASE_MS = 5_000;
+const BACKOFF_MAX_MS = 5 * 60_000;
+
+interface SinkQueue {
+  sender: SinkSender;
+  spoolPath: string;
+  pending: HistoryEntry[];
+  flushing: boolean;
+  failures: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  dropped: number;
+}
+
+export interface SinkStatus {
+  name: string;
+  pending: number;
+  failures: number;
+  lastError: string | null;
+  dropped: number;
+}
+
+const queues: SinkQueue[] = [];
+let flushTimer: ReturnType<typeof setInterval> | null = null;
+
+function log(msg: string, fields: Record<string, unknown>): void {
+  console.log(JSON.stringify({ msg, ...fields }));
+}
+
+function rewriteSpool(q: SinkQueue): void {
+  const tmpPath = `${q.spoolPath}.tmp`;
+  writeFileSync(tmpPath, q.pending.map((e) => JSON.stringify(e) + "\n").join(""), "utf-8");
+  renameSync(tmpPath, q.spoolPath);
+}
+
+/** 4xx other than timeout/rate-limit means the payload itself is rejected; retrying cannot help. */
+function isPermanent(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+async function post(sender: SinkSender, batch: HistoryEntry[]): Promise<number> {
+  const { url, headers, body } = sender.request(batch);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { method: "POST", headers, body, signal: controller.signal });
+    await res.arrayBuffer().catch(() => undefined);
+    return res.status;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function flush(q: SinkQueue): Promise<void> {
+  if (q.flushing || Date.now() < q.nextAttemptAt) return;
+  q.flushing = true;
+  try {
+    while (q.pending.length > 0) {
+      const batch = q.pending.slice(0, getSinkBatchSize());
+      let status = 0;
+      let error: string | null = null;
+      try {
+        status = await post(q.sender, batch);
+        if (status < 200 || status >= 300) error = `HTTP ${status}`;
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+      if (error && !isPermanent(status)) {
+        q.failures += 1;
+        q.lastError = error;
+        const delay = Math.min(BACKOFF_BASE_MS * 2 ** (q.failures - 1), BACKOFF_MAX_MS);
+        q.nextAttemptAt = Date.now() + delay;
+        log("sink_flush_error", { sink: q.sender.name, error, retryInMs: delay });
+        return;
+      }
+      if (error) {
+        q.lastError = error;
+        log("sink_batch_rejected", { sink: q.sender.name, error, entries: batch.length });
+      } else {
+        q.failures = 0;
+        q.lastError = null;
+      }
+      // Entries may have been dropped for overflow while the request was in flight.
+      const sent = new Set(batch);
+      while (q.pending.length > 0 && sent.has(q.pending[0])) q.pending.shift();
+      rewriteSpool(q);
+    }
+  } catch (err) {
+    log("sink_flush_error", {
+      sink: q.sender.name,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  } finally {
+    q.flushing = false;
+  }
+}
+
+/** Configure sinks from env, reload any buffered entries, and start the flush timer. */
+export function startSinks(): void {
+  if (flushTimer != null) return;
+  const senders: SinkSender[] = [];
+  const influx = getInfluxConfig();
+  if (influx) senders.push(createInfluxSender(influx));
+  const otlp = getOtlpConfig();
+  if (otlp) senders.push(createOtlpSender(otlp));
+  if (senders.length === 0) return;
+
+  const spoolDir = getDataFilePath("sinks");
+  if (!existsSync(spoolDir)) mkdirSync(spoolDir, { recursive: true });
+  for (const sender of senders) {
+    const spoolPath = join(spoolDir, `${sender.name}.ndjson`);
+    const pending = loadEntries(spoolPath).slice(-getSinkBufferMaxEntries());
+    queues.push({
+      sender,
+      spoolPath,
+      pending,
+      flushing: false,
+      failures: 0,
+      nextAttemptAt: 0,
+      lastError: null,
+      dropped: 0,
+    });
+    log("sink_started", { sink: sender.name, buffered: pending.length });
+  }
+  flushTimer = setInterval(() => {
+    for (const q of queues) void flush(q);
+  }, getSinkFlushIntervalSeconds() * 1000);
+  flushTimer.unref();
+}
+
+export function stopSinks(): void {
+  if (flushTimer != null) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+  }
+}
+
+/** Queue an entry for every configured sink. Never throws and never waits on the network. */
+export function publish(entry: HistoryEntry): void {
+  for (const q of queues) {
+    try {
+      q.pending.push(entry);
+      const overflow = q.pending.length - getSinkBufferMaxEntries();
+      if (overflow > 0) {
+        q.pending.splice(0, overflow);
+        q.dropped += overflow;
+        rewriteSpool(q);
+      } else {
+        appendFileSync(q.spoolPath, JSON.stringify(entry) + "\n", "utf-8");
+      }
+    } catch (err) {
+      log("sink_enqueue_error", {
+        sink: q.sender.name,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+}
+
+/** Per-sink queue state for /health. */
+export function getSinkStatus(): SinkStatus[] {
+  return queues.map((q) => ({
+    name: q.sender.name,
+    pending: q.pending.length,
+    failures: q.failures,
+    lastError: q.lastError,
+    dropped: q.dropped,
+  }));
+}
@@ -0,0 +1,76 @@
+/**
+ * InfluxDB v2 line protocol sink: one `rd_api` point and one `rd_stream` point per target per check.
+ */
+
+import type { HistoryEntry } from "../storage.js";
+import { entryTargets } from "../targets.js";
+import type { SinkSender } from "./types.js";
+
+function escapeTag(value: string): string {
+  return value.replace(/\r\n|[\r\n]/g, " ").replace(/[\\,= ]/g, (c) => `\\${c}`);
+}
+
+/** Newlines end a line-protocol line, so they become spaces (e.g. in multi-line error messages). */
+function escapeString(value: string): string {
+  return value.replace(/\r\n|[\r\n]/g, " ").replace(/[\\"]/g, (c) => `\\${c}`);
+}
+
+/** Line protocol for one entry (millisecond precision). */
+export function toLineProtocol(entry: HistoryEntry): string[] {
+  const ts = new Date(entry.timestamp).getTime();
+  const lines: string[] = [];
+  for (const t of entryTargets(entry)) {
+    const tags: Record<string, string | undefined> =
+      t.kind === "api"
+        ? { account: t.account }
+        : {
+            account: t.account,
+            stream: t.target,
+            cdn_host: t.cdnHost,
+            failure_step: t.failureStep,
+            error_type: t.errorType,
+          };
+    const fields: string[] = [`success=${t.success}`];
+    const responseField = t.kind === "api" ? "response_time_ms" : "api_response_time_ms";
+    if (t.responseTimeMs != null) fields.push(`${responseField}=${Math.round(t.responseTimeMs)}i`);
+    if (t.ttfbMs != null) fields.push(`ttfb_ms=${Math.round(t.ttfbMs)}i`);
+    if (t.httpStatus != null) fields.push(`http_status=${t.httpStatus}i`);
+    if ("error" in t.record && t.record.error) {
+      fields.push(`error="${escapeString(t.record.error)}"`);
+    }
+    const tagStr = Object.entries(tags)
+      .filter((kv): kv is [string, string] => !!kv[1])
+      .map(([k, v]) => `,${k}=${escapeTag(v)}`)
+      .join("");
+    const measurement = t.kind === "api" ? "rd_api" : "rd_stream";
+    lines.push(`${measurement}${tagStr} ${fields.join(",")} ${ts}`);
+  }
+  return lines;
+}
+
+export function createInfluxSender(config: {
+  url: string;
+  org: string;
+  bucket: string;
+  token?: string;
+}): SinkSender {
+  // Relative to the base, so a path prefix in INFLUX_URL (reverse proxy) is kept.
+  const base = config.url.endsWith("/") ? config.url : `${config.url}/`;
+  const writeUrl = new URL("api/v2/write", base);
+  writeUrl.searchParams.set("org", config.org);
+  writeUrl.searchParams.set("bucket", config.bucket);
+  writeUrl.searchParams.set("precision", "ms");
+  return {
+    name: "influx",
+    request(entries) {
+      return {
+        url: writeUrl.toString(),
+        headers: {
+          "Content-Type": "text/plain; charset=utf-8",
+          ...(config.token && { Authorization: `Token ${config.token}` }),
+        },
+        body: entries.flatMap(toLineProtocol).join("\n"),
+      };
+    },
+  };
+}
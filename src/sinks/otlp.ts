@@ -0,0 +1,89 @@
+/**
+ * OTLP/HTTP metrics sink (JSON encoding): each check becomes gauge data points.
+ */
+
+import type { HistoryEntry } from "../storage.js";
+import { entryTargets } from "../targets.js";
+import type { SinkSender } from "./types.js";
+
+type Attribute = { key: string; value: { stringValue: string } };
+
+interface DataPoint {
+  timeUnixNano: string;
+  asDouble: number;
+  attributes: Attribute[];
+}
+
+interface Metric {
+  name: string;
+  unit: string;
+  description: string;
+  gauge: { dataPoints: DataPoint[] };
+}
+
+const METRICS: Record<string, { unit: string; description: string }> = {
+  "rd.up": { unit: "1", description: "Check succeeded (1) or failed (0)" },
+  "rd.response_time": {
+    unit: "ms",
+    description: "API check responseTimeMs, or stream apiResponseTimeMs",
+  },
+  "rd.ttfb": { unit: "ms", description: "CDN time to first byte" },
+};
+
+function attrs(values: Record<string, string | undefined>): Attribute[] {
+  return Object.entries(values)
+    .filter((kv): kv is [string, string] => !!kv[1])
+    .map(([key, v]) => ({ key, value: { stringValue: v } }));
+}
+
+/** ExportMetricsServiceRequest body for a batch of entries. */
+export function toOtlpPayload(entries: HistoryEntry[]): unknown {
+  const points: Record<string, DataPoint[]> = { "rd.up": [], "rd.response_time": [], "rd.ttfb": [] };
+  for (const entry of entries) {
+    const timeUnixNano = (BigInt(new Date(entry.timestamp).getTime()) * 1_000_000n).toString();
+    for (const t of entryTargets(entry)) {
+      const attributes = attrs({
+        "rd.account": t.account,
+        "rd.kind": t.kind,
+        "rd.target": t.target,
+        "rd.cdn_host": t.cdnHost,
+        "rd.failure_step": t.failureStep,
+        "rd.error_type": t.errorType,
+      });
+      points["rd.up"].push({ timeUnixNano, asDouble: t.success ? 1 : 0, attributes });
+      if (t.responseTimeMs != null) {
+        points["rd.response_time"].push({ timeUnixNano, asDouble: t.responseTimeMs, attributes });
+      }
+      if (t.ttfbMs != null) {
+        points["rd.ttfb"].push({ timeUnixNano, asDouble: t.ttfbMs, attributes });
+      }
+    }
+  }
+  const metrics: Metric[] = Object.entries(points)
+    .filter(([, dataPoints]) => dataPoints.length > 0)
+    .map(([name, dataPoints]) => ({ name, ...METRICS[name], gauge: { dataPoints } }));
+  return {
+    resourceMetrics: [
+      {
+        resource: { attributes: attrs({ "service.name": "real-debrid-uptime" }) },
+        scopeMetrics: [{ scope: { name: "real-debrid-uptime" }, metrics }],
+      },
+    ],
+  };
+}
+
+export function createOtlpSender(config: {
+  url: string;
+  headers: Record<string, string>;
+}): SinkSender {
+  return {
+    name: "otlp",
+    request(entries) {
+      return {
+        url: config.url,
+        headers: { ...config.headers, "Content-Type": "application/json" },
+        body: JSON.stringify(toOtlpPayload(entries)),
+      };
+    },
+  };
+}
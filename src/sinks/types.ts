@@ -0,0 +1,17 @@
+/**
+ * Sink contract: turn a batch of entries into one HTTP POST.
+ */
+
+import type { HistoryEntry } from "../storage.js";
+
+export interface SinkRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface SinkSender {
+  /** Stable name; also names the on-disk buffer file. */
+  name: string;
+  request(entries: HistoryEntry[]): SinkRequest;
+}
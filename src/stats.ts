@@ -0,0 +1,128 @@
+/**
+ * Latency distribution statistics (percentiles, mean, standard deviation) per target and metric,
+ * optionally in fixed-size time buckets for graphing.
+ */
+
+import { iterate, type HistoryQuery } from "./storage.js";
+import { entryTargets, type TargetKind } from "./targets.js";
+
+/** API: responseTimeMs; streams: apiResponseTimeMs and ttfbMs (field names as stored). */
+export type LatencyMetric = "responseTimeMs" | "apiResponseTimeMs" | "ttfbMs";
+
+export interface LatencySummary {
+  count: number;
+  mean: number;
+  /** Population standard deviation. */
+  stddev: number;
+  min: number;
+  max: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+}
+
+export interface LatencyStats extends LatencySummary {
+  /** Only set when a bucket size was requested. */
+  bucketStart?: string;
+  account: string;
+  kind: TargetKind;
+  target: string;
+  metric: LatencyMetric;
+}
+
+/** Percentile of ascending `sorted` (p in [0, 100]) with linear interpolation between ranks. */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+/** Summary of a non-empty list of values. */
+export function summarize(values: number[]): LatencySummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const count = sorted.length;
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / count;
+  const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / count;
+  return {
+    count,
+    mean,
+    stddev: Math.sqrt(variance),
+    min: sorted[0],
+    max: sorted[count - 1],
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+  };
+}
+
+/**
+ * Latency statistics for entries matching from/to and account. `streamId` limits to one stream ("api" for the
+ * API check). With `bucketMs`, one row per (UTC bucket, account, target, metric); otherwise one row per
+ * (account, target, metric).
+ */
+export function latencyStats(q: HistoryQuery, bucketMs?: number): LatencyStats[] {
+  const only = q.streamId?.trim() || undefined;
+  const groups = new Map<
+    string,
+    {
+      bucketMs?: number;
+      account: string;
+      kind: TargetKind;
+      target: string;
+      metric: LatencyMetric;
+      values: number[];
+    }
+  >();
+  const add = (
+    bucket: number | undefined,
+    account: string,
+    kind: TargetKind,
+    target: string,
+    metric: LatencyMetric,
+    value: number | undefined
+  ) => {
+    if (value == null || !Number.isFinite(value)) return;
+    const key = `${bucket ?? ""}|${account}|${target}|${metric}`;
+    let g = groups.get(key);
+    if (!g) {
+      g = { bucketMs: bucket, account, kind, target, metric, values: [] };
+      groups.set(key, g);
+    }
+    g.values.push(value);
+  };
+
+  for (const entry of iterate({ from: q.from, to: q.to, account: q.account })) {
+    const ms = new Date(entry.timestamp).getTime();
+    const bucket = bucketMs ? Math.floor(ms / bucketMs) * bucketMs : undefined;
+    for (const t of entryTargets(entry)) {
+      if (only && t.target !== only) continue;
+      if (t.kind === "api") {
+        add(bucket, t.account, t.kind, t.target, "responseTimeMs", t.responseTimeMs);
+      } else {
+        add(bucket, t.account, t.kind, t.target, "apiResponseTimeMs", t.responseTimeMs);
+        add(bucket, t.account, t.kind, t.target, "ttfbMs", t.ttfbMs);
+      }
+    }
+  }
+
+  return [...groups.values()]
+    .sort(
+      (a, b) =>
+        (a.bucketMs ?? 0) - (b.bucketMs ?? 0) ||
+        a.account.localeCompare(b.account) ||
+        (a.kind === b.kind ? a.target.localeCompare(b.target) : a.kind === "api" ? -1 : 1) ||
+        a.metric.localeCompare(b.metric)
+    )
+    .map((g) => ({
+      ...(g.bucketMs !== undefined && { bucketStart: new Date(g.bucketMs).toISOString() }),
+      account: g.account,
+      kind: g.kind,
+      target: g.target,
+      metric: g.metric,
+      ...summarize(g.values),
+    }));
+}
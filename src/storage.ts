@@ -1,38 +1,60 @@
 /**
- * Local persistence: append-only records, auto-prune older than 7 days.
- * Storage path directory is created if missing.
+ * Local persistence: append-only records; a background compaction job rolls raw entries up into
+ * hourly/daily aggregates and prunes each tier past its retention (RAW_RETENTION_DAYS, *_ROLLUP_RETENTION_DAYS).
+ * Backend is chosen by STORAGE_BACKEND (NDJSON file or SQLite); the storage directory is created if missing.
  */
 
-import { readFileSync, writeFileSync, mkdirSync, existsSync } from "node:fs";
+import { mkdirSync, existsSync } from "node:fs";
 import { dirname } from "node:path";
-import { getStoragePath } from "./config.js";
+import {
+  getStorageBackend,
+  getStoragePath,
+  getSqlitePath,
+  getCompactionIntervalSeconds,
+  getRawRetentionDays,
+  getHourlyRollupRetentionDays,
+  getDailyRollupRetentionDays,
+  getDataFilePath,
+} from "./config.js";
+import { createJsonBackend } from "./storage/jsonBackend.js";
+import { queryRange } from "./storage/query.js";
+import { bucketStartMs, rollupHours, rollupDays, DAY_MS, HOUR_MS } from "./rollups.js";
+import type {
+  CurrentEntry,
+  HistoryEntry,
+  HistoryQuery,
+  Rollup,
+  RollupResolution,
+  StorageBackend,
+} from "./storage/types.js";
 
-export interface ApiRecord {
-  success: boolean;
-  responseTimeMs: number;
-  httpStatus: number;
-  error?: string;
-}
+export type {
+  ApiRecord,
+  CurrentEntry,
+  StreamRecord,
+  StreamAttempt,
+  StreamThroughput,
+  StreamSeek,
+  StreamTiming,
+  SeekProbe,
+  InstantHash,
+  InstantVariant,
+  LifecycleStep,
+  StreamLifecycle,
+  HistoryEntry,
+  HistoryQuery,
+  Rollup,
+  RollupResolution,
+  TargetState,
+} from "./storage/types.js";
 
-export interface StreamRecord {
-  success: boolean;
-  apiResponseTimeMs?: number;
-  ttfbMs?: number;
-  httpStatus?: number;
-  cdnHost?: string;
-  errorType?: string;
-  /** Why the check failed (e.g. instant_unavailable, no_links); only when success is false */
-  failureStep?: string;
-}
+export { DEFAULT_ACCOUNT, entryAccount } from "./storage/query.js";
 
-export interface HistoryEntry {
-  timestamp: string;
-  api?: ApiRecord;
-  streams?: Record<string, StreamRecord>;
-}
+/** Checks may be appended shortly after their timestamp; only roll up hours that ended this long ago. */
+const ROLLUP_GRACE_MS = 5 * 60 * 1000;
 
-const RETENTION_DAYS = 7;
-const MAX_AGE_MS = RETENTION_DAYS * 24 * 60 * 60 * 1000;
+let backend: StorageBackend | null = null;
+let compactionTimer: ReturnType<typeof setTimeout> | null = null;
 
 function ensureDir(path: string): void {
   const dir = dirname(path);
@@ -41,47 +63,285 @@ function ensureDir(path: string): void {
   }
 }
 
-function loadEntries(path: string): HistoryEntry[] {
+function cutoff(): number {
+  return Date.now() - getRawRetentionDays() * DAY_MS;
+}
+
+function rollupCutoff(resolution: RollupResolution): number {
+  const days =
+    resolution === "hour" ? getHourlyRollupRetentionDays() : getDailyRollupRetentionDays();
+  return Date.now() - days * DAY_MS;
+}
+
+/**
+ * The open backend. The JSON backend opens on first use; SQLite must have been opened by ensureStoragePath(),
+ * which loads its native module.
+ */
+function getBackend(): StorageBackend {
+  if (backend) return backend;
+  if (getStorageBackend() === "sqlite") {
+    throw new Error("SQLite storage is not open: call ensureStoragePath() at startup");
+  }
+  const path = getStoragePath();
   ensureDir(path);
-  if (!existsSync(path)) return [];
+  backend = createJsonBackend(path, getDataFilePath("rollups.json"));
+  return backend;
+}
+
+/**
+ * Append one record. Old entries are removed by compact(), not here.
+ */
+export function append(entry: HistoryEntry): void {
+  getBackend().append(entry);
+}
+
+/**
+ * Merge entries from another instance (sorted oldest first), skipping targets already stored at the
+ * same timestamp, and refresh any rollups the new entries fall into.
+ */
+export function merge(entries: HistoryEntry[]): { added: number; duplicates: number } {
+  const b = getBackend();
+  const result = b.merge(entries);
+  if (result.added > 0 && entries.length > 0) {
+    refreshRollups(
+      b,
+      new Date(entries[0].timestamp).getTime(),
+      new Date(entries[entries.length - 1].timestamp).getTime()
+    );
+  }
+  return result;
+}
+
+/**
+ * Fold entries older than the raw retention (e.g. imported history) into hourly and daily rollups, as
+ * compaction would have; their raw records would only be pruned again. A bucket that already has a rollup for
+ * a target is left as it is, since its checks cannot be told apart from the imported ones, except days still
+ * covered by hourly rollups, which are recomputed from them. Returns how many rollups were written.
+ */
+export function rollUpOld(entries: HistoryEntry[]): number {
+  const hours = rollupHours(entries);
+  if (hours.length === 0) return 0;
+  const b = getBackend();
+  const key = (r: Rollup) => `${r.bucketStart}|${r.account}|${r.kind}|${r.target}`;
+  let firstMs = Infinity;
+  let lastMs = -Infinity;
+  for (const h of hours) {
+    const ms = new Date(h.bucketStart).getTime();
+    firstMs = Math.min(firstMs, ms);
+    lastMs = Math.max(lastMs, ms);
+  }
+  const range = {
+    fromMs: bucketStartMs(firstMs, "day"),
+    toMs: bucketStartMs(lastMs, "day") + DAY_MS - 1,
+  };
+  const hourCutoff = rollupCutoff("hour");
+
+  const storedHours = new Set(b.readRollups("hour", range).map(key));
+  const newHours = hours.filter(
+    (h) => new Date(h.bucketStart).getTime() > hourCutoff && !storedHours.has(key(h))
+  );
+  b.upsertRollups(newHours);
+
+  const storedDays = new Set(b.readRollups("day", range).map(key));
+  const fromHours = new Map(rollupDays(b.readRollups("hour", range)).map((d) => [key(d), d]));
+  const days = rollupDays(hours).flatMap((d) => {
+    if (new Date(d.bucketStart).getTime() > hourCutoff) return [fromHours.get(key(d)) ?? d];
+    return storedDays.has(key(d)) ? [] : [d];
+  });
+  b.upsertRollups(days);
+  return newHours.length + days.length;
+}
+
+/**
+ * Recompute already-written rollups for hours in [fromMs, toMs] (and their days) from raw entries,
+ * e.g. after older entries were merged in. Hours not yet rolled up are left to the next compaction.
+ */
+function refreshRollups(b: StorageBackend, fromMs: number, toMs: number): void {
+  const lastHour = b.latestRollupStart("hour");
+  if (lastHour == null) return;
+  const hourFrom = bucketStartMs(fromMs, "hour");
+  const hourTo = Math.min(bucketStartMs(toMs, "hour"), lastHour);
+  if (hourFrom > hourTo) return;
+  const entries = b.query(
+    {
+      from: new Date(hourFrom).toISOString(),
+      to: new Date(hourTo + HOUR_MS - 1).toISOString(),
+    },
+    cutoff()
+  );
+  b.upsertRollups(rollupHours(entries));
+  const lastDay = b.latestRollupStart("day");
+  if (lastDay == null) return;
+  const dayFrom = bucketStartMs(hourFrom, "day");
+  const dayTo = Math.min(bucketStartMs(hourTo, "day"), lastDay);
+  if (dayFrom > dayTo) return;
+  b.upsertRollups(rollupDays(b.readRollups("hour", { fromMs: dayFrom, toMs: dayTo + DAY_MS - 1 })));
+}
+
+/**
+ * Roll up every complete hour (and day) not yet aggregated. Must run before raw entries are pruned.
+ */
+function rollUp(b: StorageBackend, nowMs: number): number {
+  let written = 0;
+  const hourEnd = bucketStartMs(nowMs - ROLLUP_GRACE_MS, "hour");
+  const lastHour = b.latestRollupStart("hour");
+  const hourFrom = lastHour != null ? lastHour + HOUR_MS : 0;
+  if (hourFrom < hourEnd) {
+    const entries = b.query(
+      { from: new Date(hourFrom).toISOString(), to: new Date(hourEnd - 1).toISOString() },
+      cutoff()
+    );
+    const hours = rollupHours(entries);
+    b.upsertRollups(hours);
+    written += hours.length;
+  }
+  const dayEnd = bucketStartMs(hourEnd, "day");
+  const lastDay = b.latestRollupStart("day");
+  const dayFrom = lastDay != null ? lastDay + DAY_MS : 0;
+  if (dayFrom < dayEnd) {
+    const days = rollupDays(b.readRollups("hour", { fromMs: dayFrom, toMs: dayEnd - 1 }));
+    b.upsertRollups(days);
+    written += days.length;
+  }
+  return written;
+}
+
+/**
+ * Roll up complete buckets, then prune raw entries and rollups past their retention.
+ * Reads already hide expired data, so results do not depend on when this runs.
+ */
+export function compact(): void {
+  const started = Date.now();
   try {
-    const raw = readFileSync(path, "utf-8");
-    const lines = raw.trim().split("\n").filter(Boolean);
-    return lines.map((line) => JSON.parse(line) as HistoryEntry);
-  } catch {
-    return [];
+    const b = getBackend();
+    const rolledUp = rollUp(b, started);
+    const removed = b.compact(cutoff());
+    const rollupsRemoved =
+      b.pruneRollups("hour", rollupCutoff("hour")) + b.pruneRollups("day", rollupCutoff("day"));
+    console.log(
+      JSON.stringify({
+        msg: "storage_compacted",
+        removed,
+        rolledUp,
+        rollupsRemoved,
+        durationMs: Date.now() - started,
+      })
+    );
+  } catch (err) {
+    console.log(
+      JSON.stringify({
+        msg: "storage_compact_error",
+        error: err instanceof Error ? err.message : String(err),
+      })
+    );
   }
 }
 
-function prune(entries: HistoryEntry[]): HistoryEntry[] {
-  const cutoff = Date.now() - MAX_AGE_MS;
-  return entries.filter((e) => new Date(e.timestamp).getTime() > cutoff);
+function scheduleCompaction(): void {
+  compactionTimer = setTimeout(() => {
+    compact();
+    scheduleCompaction();
+  }, getCompactionIntervalSeconds() * 1000);
+  compactionTimer.unref();
 }
 
 /**
- * Append one record and prune entries older than 7 days.
+ * Compact now, then every COMPACTION_INTERVAL_SECONDS until stopCompaction().
  */
-export function append(entry: HistoryEntry): void {
-  const path = getStoragePath();
-  const entries = loadEntries(path);
-  entries.push(entry);
-  const pruned = prune(entries);
-  ensureDir(path);
-  const content = pruned.map((e) => JSON.stringify(e)).join("\n") + "\n";
-  writeFileSync(path, content, "utf-8");
+export function startCompaction(): void {
+  if (compactionTimer != null) return;
+  compact();
+  scheduleCompaction();
+}
+
+export function stopCompaction(): void {
+  if (compactionTimer != null) {
+    clearTimeout(compactionTimer);
+    compactionTimer = null;
+  }
 }
 
 /**
- * Read all entries (already pruned on each append; this does not prune again).
+ * Read all entries within the retention window, oldest first.
  */
 export function readAll(): HistoryEntry[] {
-  const path = getStoragePath();
-  return prune(loadEntries(path));
+  return getBackend().readAll(cutoff());
+}
+
+/**
+ * Entries matching the /status/history filters (from, to, streamId), oldest first.
+ */
+export function query(q: HistoryQuery): HistoryEntry[] {
+  return getBackend().query(q, cutoff());
+}
+
+/**
+ * Same results as query(), streamed page by page for large ranges (exports).
+ */
+export function iterate(q: HistoryQuery): Iterable<HistoryEntry> {
+  return getBackend().iterate(q, cutoff());
+}
+
+/**
+ * Hourly or daily rollups within their retention, filtered by bucket start (from, to), account and target.
+ * `streamId` selects one stream's rollups; "api" selects the API check.
+ */
+export function readRollups(resolution: RollupResolution, q: HistoryQuery): Rollup[] {
+  const { fromMs, toMs } = queryRange(q);
+  const retainedFrom = rollupCutoff(resolution) + 1;
+  return getBackend().readRollups(resolution, {
+    fromMs: fromMs !== undefined ? Math.max(fromMs, retainedFrom) : retainedFrom,
+    toMs,
+    account: q.account,
+    target: q.streamId?.trim() || undefined,
+  });
+}
+
+/**
+ * Most recent entry, or null when there is no history yet.
+ */
+export function latest(): HistoryEntry | null {
+  return getBackend().latest(cutoff());
 }
 
 /**
- * Ensure storage directory exists (e.g. ./data). Call at startup.
+ * Newest record of each target of one account from the last day, merged into one entry. Targets can run on
+ * their own schedules, so the most recent entry alone may hold only some of them. Null when the account has
+ * no history yet.
  */
-export function ensureStoragePath(): void {
-  ensureDir(getStoragePath());
+export function latestPerTarget(account: string): CurrentEntry | null {
+  const newest = latest();
+  if (!newest) return null;
+  let current: CurrentEntry | null = null;
+  const from = new Date(new Date(newest.timestamp).getTime() - DAY_MS).toISOString();
+  for (const entry of iterate({ from, account })) {
+    current ??= { timestamp: entry.timestamp, account, checkedAt: {} };
+    current.timestamp = entry.timestamp;
+    if (entry.api) {
+      current.api = entry.api;
+      current.checkedAt.api = entry.timestamp;
+    }
+    for (const [id, record] of Object.entries(entry.streams ?? {})) {
+      (current.streams ??= {})[id] = record;
+      current.checkedAt[id] = entry.timestamp;
+    }
+  }
+  return current;
+}
+
+/**
+ * Ensure storage directory exists (e.g. ./data) and open the backend. Call at startup. better-sqlite3 is only
+ * loaded when STORAGE_BACKEND=sqlite, so JSON storage works without the native module; SQLite imports an
+ * existing history.json once. Rejects when the SQLite module cannot be loaded.
+ */
+export async function ensureStoragePath(): Promise<void> {
+  if (backend) return;
+  if (getStorageBackend() !== "sqlite") {
+    getBackend();
+    return;
+  }
+  const path = getSqlitePath();
+  ensureDir(path);
+  const { createSqliteBackend } = await import("./storage/sqliteBackend.js");
+  backend = createSqliteBackend(path, getStoragePath());
 }
@@ -0,0 +1,273 @@
+/**
+ * NDJSON file backend: one HistoryEntry per line at STORAGE_PATH.
+ * Appends write a single line; pruning happens only in compact(), which rewrites the file atomically.
+ * Rollups live in a separate JSON document next to the history file.
+ */
+
+import {
+  readFileSync,
+  writeFileSync,
+  appendFileSync,
+  renameSync,
+  existsSync,
+  openSync,
+  readSync,
+  fstatSync,
+  closeSync,
+} from "node:fs";
+import { StringDecoder } from "node:string_decoder";
+import { DEFAULT_ACCOUNT, entryAccount, filterEntries } from "./query.js";
+import type {
+  HistoryEntry,
+  HistoryQuery,
+  Rollup,
+  RollupResolution,
+  StorageBackend,
+} from "./types.js";
+
+type RollupFile = Record<RollupResolution, Rollup[]>;
+
+/** Parse an NDJSON history file; unreadable files yield no entries and torn lines are skipped. */
+export function loadEntries(path: string): HistoryEntry[] {
+  if (!existsSync(path)) return [];
+  let raw: string;
+  try {
+    raw = readFileSync(path, "utf-8");
+  } catch {
+    return [];
+  }
+  const entries: HistoryEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as HistoryEntry);
+    } catch {
+      // partial line from an interrupted append; dropped at next compaction
+    }
+  }
+  return entries;
+}
+
+const READ_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Parsed entries read in fixed-size chunks. The descriptor stays on the file that was open when
+ * iteration started, so a concurrent compaction (rename) does not disturb it.
+ */
+function* streamEntries(path: string): Generator<HistoryEntry> {
+  if (!existsSync(path)) return;
+  const fd = openSync(path, "r");
+  try {
+    const decoder = new StringDecoder("utf-8");
+    const buf = Buffer.alloc(READ_CHUNK_BYTES);
+    let pending = "";
+    for (;;) {
+      const n = readSync(fd, buf, 0, buf.length, null);
+      pending += n > 0 ? decoder.write(buf.subarray(0, n)) : decoder.end();
+      const lines = pending.split("\n");
+      pending = n > 0 ? (lines.pop() ?? "") : "";
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          yield JSON.parse(line) as HistoryEntry;
+        } catch {
+          // torn line; see loadEntries
+        }
+      }
+      if (n === 0) return;
+    }
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/** True when the file is empty/missing or its last byte is a newline (no torn line to terminate). */
+function endsWithNewline(path: string): boolean {
+  if (!existsSync(path)) return true;
+  const fd = openSync(path, "r");
+  try {
+    const { size } = fstatSync(fd);
+    if (size === 0) return true;
+    const buf = Buffer.alloc(1);
+    readSync(fd, buf, 0, 1, size - 1);
+    return buf[0] === 0x0a;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function loadRollups(path: string): RollupFile {
+  if (!existsSync(path)) return { hour: [], day: [] };
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<RollupFile>;
+    // Rollups written before accounts existed belong to the default account.
+    const withAccount = (list: Rollup[] | undefined) =>
+      Array.isArray(list) ? list.map((r) => ({ ...r, account: r.account ?? DEFAULT_ACCOUNT })) : [];
+    return { hour: withAccount(parsed.hour), day: withAccount(parsed.day) };
+  } catch {
+    return { hour: [], day: [] };
+  }
+}
+
+function saveRollups(path: string, file: RollupFile): void {
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(file), "utf-8");
+  renameSync(tmpPath, path);
+}
+
+function rollupKey(r: Rollup): string {
+  return `${r.bucketStart}|${r.account}|${r.kind}|${r.target}`;
+}
+
+/** Replace the history file atomically (write temp file, then rename). */
+function rewrite(path: string, entries: HistoryEntry[]): void {
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, entries.map((e) => JSON.stringify(e) + "\n").join(""), "utf-8");
+  renameSync(tmpPath, path);
+}
+
+function prune(entries: HistoryEntry[], cutoffMs: number): HistoryEntry[] {
+  return entries.filter((e) => new Date(e.timestamp).getTime() > cutoffMs);
+}
+
+export function createJsonBackend(path: string, rollupsPath: string): StorageBackend {
+  let terminated: boolean | null = null;
+  return {
+    append(entry) {
+      // Terminate a torn last line once so this entry starts on its own line.
+      if (terminated === null) terminated = endsWithNewline(path);
+      const prefix = terminated ? "" : "\n";
+      appendFileSync(path, prefix + JSON.stringify(entry) + "\n", "utf-8");
+      terminated = true;
+    },
+
+    merge(incoming) {
+      const entries = loadEntries(path);
+      // Runs are identified by timestamp and account.
+      const byRun = new Map<string, HistoryEntry>();
+      const seen = new Set<string>();
+      for (const e of entries) {
+        const run = `${new Date(e.timestamp).getTime()}|${entryAccount(e)}`;
+        if (!byRun.has(run)) byRun.set(run, e);
+        if (e.api) seen.add(`${run}|api`);
+        for (const id of Object.keys(e.streams ?? {})) seen.add(`${run}|stream|${id}`);
+      }
+      let added = 0;
+      let duplicates = 0;
+      for (const e of incoming) {
+        const run = `${new Date(e.timestamp).getTime()}|${entryAccount(e)}`;
+        const fresh: HistoryEntry = {
+          timestamp: e.timestamp,
+          ...(e.account !== undefined && { account: e.account }),
+        };
+        if (e.api) {
+          if (seen.has(`${run}|api`)) duplicates += 1;
+          else {
+            fresh.api = e.api;
+            seen.add(`${run}|api`);
+            added += 1;
+          }
+        }
+        for (const [id, rec] of Object.entries(e.streams ?? {})) {
+          const key = `${run}|stream|${id}`;
+          if (seen.has(key)) {
+            duplicates += 1;
+            continue;
+          }
+          fresh.streams = { ...fresh.streams, [id]: rec };
+          seen.add(key);
+          added += 1;
+        }
+        if (!fresh.api && !fresh.streams) continue;
+        const existing = byRun.get(run);
+        if (existing) {
+          if (fresh.api) existing.api = fresh.api;
+          if (fresh.streams) existing.streams = { ...existing.streams, ...fresh.streams };
+        } else {
+          entries.push(fresh);
+          byRun.set(run, fresh);
+        }
+      }
+      if (added > 0) {
+        const sorted = entries
+          .map((e, i) => ({ e, i, ms: new Date(e.timestamp).getTime() }))
+          .sort((a, b) => a.ms - b.ms || a.i - b.i)
+          .map(({ e }) => e);
+        rewrite(path, sorted);
+        terminated = true;
+      }
+      return { added, duplicates };
+    },
+
+    compact(cutoffMs) {
+      if (!existsSync(path)) return 0;
+      const entries = loadEntries(path);
+      const kept = prune(entries, cutoffMs);
+      rewrite(path, kept);
+      terminated = true;
+      return entries.length - kept.length;
+    },
+
+    readAll(cutoffMs) {
+      return prune(loadEntries(path), cutoffMs);
+    },
+
+    query(q: HistoryQuery, cutoffMs) {
+      return filterEntries(prune(loadEntries(path), cutoffMs), q);
+    },
+
+    *iterate(q: HistoryQuery, cutoffMs) {
+      for (const entry of streamEntries(path)) {
+        if (new Date(entry.timestamp).getTime() <= cutoffMs) continue;
+        yield* filterEntries([entry], q);
+      }
+    },
+
+    latest(cutoffMs) {
+      const entries = prune(loadEntries(path), cutoffMs);
+      return entries.length > 0 ? entries[entries.length - 1] : null;
+    },
+
+    upsertRollups(rollups) {
+      if (rollups.length === 0) return;
+      const file = loadRollups(rollupsPath);
+      for (const resolution of ["hour", "day"] as const) {
+        const incoming = rollups.filter((r) => r.resolution === resolution);
+        if (incoming.length === 0) continue;
+        const byKey = new Map(file[resolution].map((r) => [rollupKey(r), r]));
+        for (const r of incoming) byKey.set(rollupKey(r), r);
+        file[resolution] = [...byKey.values()].sort(
+          (a, b) => new Date(a.bucketStart).getTime() - new Date(b.bucketStart).getTime()
+        );
+      }
+      saveRollups(rollupsPath, file);
+    },
+
+    readRollups(resolution, q) {
+      return loadRollups(rollupsPath)[resolution].filter((r) => {
+        const ms = new Date(r.bucketStart).getTime();
+        if (q.fromMs !== undefined && ms < q.fromMs) return false;
+        if (q.toMs !== undefined && ms > q.toMs) return false;
+        if (q.account !== undefined && r.account !== q.account) return false;
+        return q.target === undefined || r.target === q.target;
+      });
+    },
+
+    latestRollupStart(resolution) {
+      const list = loadRollups(rollupsPath)[resolution];
+      if (list.length === 0) return null;
+      return list.reduce((max, r) => Math.max(max, new Date(r.bucketStart).getTime()), -Infinity);
+    },
+
+    pruneRollups(resolution, cutoffMs) {
+      const file = loadRollups(rollupsPath);
+      const before = file[resolution].length;
+      file[resolution] = file[resolution].filter(
+        (r) => new Date(r.bucketStart).getTime() > cutoffMs
+      );
+      const removed = before - file[resolution].length;
+      if (removed > 0) saveRollups(rollupsPath, file);
+      return removed;
+    },
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Shared /status/history filter semantics so both backends answer queries identically.
+ */
+
+import type { HistoryEntry, HistoryQuery } from "./types.js";
+
+/** Account of single-account setups and of entries written before accounts existed. */
+export const DEFAULT_ACCOUNT = "default";
+
+export function entryAccount(entry: HistoryEntry): string {
+  return entry.account ?? DEFAULT_ACCOUNT;
+}
+
+function parseTime(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const t = new Date(value).getTime();
+  return Number.isNaN(t) ? undefined : t;
+}
+
+/** Inclusive time bounds from a query; unparseable bounds are treated as absent. */
+export function queryRange(q: HistoryQuery): { fromMs?: number; toMs?: number } {
+  return { fromMs: parseTime(q.from), toMs: parseTime(q.to) };
+}
+
+/** Normalized stream filter, or undefined when the query has none. */
+export function queryStreamId(q: HistoryQuery): string | undefined {
+  const id = q.streamId?.trim();
+  return id ? q.streamId : undefined;
+}
+
+/** Apply a query to an in-memory list of entries (JSON backend). */
+export function filterEntries(entries: HistoryEntry[], q: HistoryQuery): HistoryEntry[] {
+  const { fromMs, toMs } = queryRange(q);
+  const streamId = queryStreamId(q);
+  let result = entries;
+  if (q.account !== undefined) {
+    result = result.filter((e) => entryAccount(e) === q.account);
+  }
+  if (fromMs !== undefined) {
+    result = result.filter((e) => new Date(e.timestamp).getTime() >= fromMs);
+  }
+  if (toMs !== undefined) {
+    result = result.filter((e) => new Date(e.timestamp).getTime() <= toMs);
+  }
+  if (streamId !== undefined) {
+    result = result
+      .filter((e) => e.streams?.[streamId])
+      .map((e) => ({
+        timestamp: e.timestamp,
+        account: entryAccount(e),
+        streams: { [streamId]: e.streams![streamId] },
+      }));
+  }
+  return result;
+}
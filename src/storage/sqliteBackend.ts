@@ -0,0 +1,600 @@
+/**
+ * SQLite backend: one row per check run (timestamp and account), plus API and per-stream records keyed by run.
+ * Time and stream filters are indexed queries; fields without a dedicated column round-trip via `extra`.
+ */
+
+import Database from "better-sqlite3";
+import { existsSync, renameSync } from "node:fs";
+import { loadEntries } from "./jsonBackend.js";
+import { DEFAULT_ACCOUNT, entryAccount, queryRange, queryStreamId } from "./query.js";
+import type {
+  ApiRecord,
+  HistoryEntry,
+  HistoryQuery,
+  LatencyAggregate,
+  Rollup,
+  RollupResolution,
+  StorageBackend,
+  StreamRecord,
+} from "./types.js";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  timestamp TEXT NOT NULL,
+  ts_ms INTEGER NOT NULL,
+  has_streams INTEGER NOT NULL DEFAULT 0,
+  account TEXT NOT NULL DEFAULT '${DEFAULT_ACCOUNT}'
+);
+CREATE INDEX IF NOT EXISTS runs_ts ON runs (ts_ms);
+CREATE TABLE IF NOT EXISTS api_records (
+  run_id INTEGER PRIMARY KEY REFERENCES runs (id) ON DELETE CASCADE,
+  success INTEGER NOT NULL,
+  response_time_ms INTEGER,
+  http_status INTEGER,
+  error TEXT,
+  extra TEXT
+);
+CREATE TABLE IF NOT EXISTS stream_records (
+  run_id INTEGER NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+  stream_id TEXT NOT NULL,
+  ts_ms INTEGER NOT NULL,
+  success INTEGER NOT NULL,
+  api_response_time_ms INTEGER,
+  ttfb_ms INTEGER,
+  http_status INTEGER,
+  cdn_host TEXT,
+  error_type TEXT,
+  failure_step TEXT,
+  extra TEXT,
+  PRIMARY KEY (run_id, stream_id)
+);
+CREATE INDEX IF NOT EXISTS stream_records_stream_ts ON stream_records (stream_id, ts_ms);
+CREATE TABLE IF NOT EXISTS rollups (
+  resolution TEXT NOT NULL,
+  bucket_ms INTEGER NOT NULL,
+  account TEXT NOT NULL DEFAULT '${DEFAULT_ACCOUNT}',
+  kind TEXT NOT NULL,
+  target TEXT NOT NULL,
+  checks INTEGER NOT NULL,
+  successes INTEGER NOT NULL,
+  failures INTEGER NOT NULL,
+  failures_by_step TEXT NOT NULL,
+  failures_by_error_type TEXT NOT NULL,
+  rt_min INTEGER, rt_max INTEGER, rt_sum INTEGER, rt_count INTEGER,
+  ttfb_min INTEGER, ttfb_max INTEGER, ttfb_sum INTEGER, ttfb_count INTEGER,
+  PRIMARY KEY (resolution, bucket_ms, account, kind, target)
+);
+`;
+
+/** Rollup columns in table order, for the account migration. */
+const ROLLUP_COLUMNS = `resolution, bucket_ms, account, kind, target, checks, successes, failures,
+  failures_by_step, failures_by_error_type,
+  rt_min, rt_max, rt_sum, rt_count, ttfb_min, ttfb_max, ttfb_sum, ttfb_count`;
+
+const ITERATE_PAGE_SIZE = 500;
+
+interface RunRow {
+  id: number;
+  timestamp: string;
+  has_streams: number;
+  account: string;
+}
+
+interface ApiRow {
+  run_id: number;
+  success: number;
+  response_time_ms: number | null;
+  http_status: number | null;
+  error: string | null;
+  extra: string | null;
+}
+
+interface PagedRunRow extends RunRow {
+  ts_ms: number;
+}
+
+interface StreamRow {
+  run_id: number;
+  stream_id: string;
+  ts_ms: number;
+  success: number;
+  api_response_time_ms: number | null;
+  ttfb_ms: number | null;
+  http_status: number | null;
+  cdn_host: string | null;
+  error_type: string | null;
+  failure_step: string | null;
+  extra: string | null;
+}
+
+interface RollupRow {
+  resolution: RollupResolution;
+  bucket_ms: number;
+  account: string;
+  kind: Rollup["kind"];
+  target: string;
+  checks: number;
+  successes: number;
+  failures: number;
+  failures_by_step: string;
+  failures_by_error_type: string;
+  rt_min: number | null;
+  rt_max: number | null;
+  rt_sum: number | null;
+  rt_count: number | null;
+  ttfb_min: number | null;
+  ttfb_max: number | null;
+  ttfb_sum: number | null;
+  ttfb_count: number | null;
+}
+
+const API_COLUMNS = new Set(["success", "responseTimeMs", "httpStatus", "error"]);
+const STREAM_COLUMNS = new Set([
+  "success",
+  "apiResponseTimeMs",
+  "ttfbMs",
+  "httpStatus",
+  "cdnHost",
+  "errorType",
+  "failureStep",
+]);
+
+/** Fields without a dedicated column, serialized so newer record fields survive a round-trip. */
+function extraOf(record: object, columns: Set<string>): string | null {
+  const extra: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (!columns.has(key) && value !== undefined) extra[key] = value;
+  }
+  return Object.keys(extra).length > 0 ? JSON.stringify(extra) : null;
+}
+
+function parseExtra(raw: string | null): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+function apiFromRow(row: ApiRow): ApiRecord {
+  return {
+    success: row.success === 1,
+    responseTimeMs: row.response_time_ms ?? 0,
+    httpStatus: row.http_status ?? 0,
+    ...(row.error != null && { error: row.error }),
+    ...parseExtra(row.extra),
+  };
+}
+
+function streamFromRow(row: StreamRow): StreamRecord {
+  return {
+    success: row.success === 1,
+    ...(row.api_response_time_ms != null && { apiResponseTimeMs: row.api_response_time_ms }),
+    ...(row.ttfb_ms != null && { ttfbMs: row.ttfb_ms }),
+    ...(row.http_status != null && { httpStatus: row.http_status }),
+    ...(row.cdn_host != null && { cdnHost: row.cdn_host }),
+    ...(row.error_type != null && { errorType: row.error_type }),
+    ...(row.failure_step != null && { failureStep: row.failure_step }),
+    ...parseExtra(row.extra),
+  };
+}
+
+function matchesAccount(q: { account?: string }, account: string): boolean {
+  return q.account === undefined || q.account === account;
+}
+
+function latencyFromColumns(
+  min: number | null,
+  max: number | null,
+  sum: number | null,
+  count: number | null
+): LatencyAggregate | undefined {
+  if (min == null || max == null || sum == null || !count) return undefined;
+  return { min, max, sum, count };
+}
+
+function rollupFromRow(row: RollupRow): Rollup {
+  const responseTimeMs = latencyFromColumns(row.rt_min, row.rt_max, row.rt_sum, row.rt_count);
+  const ttfbMs = latencyFromColumns(row.ttfb_min, row.ttfb_max, row.ttfb_sum, row.ttfb_count);
+  return {
+    resolution: row.resolution,
+    bucketStart: new Date(row.bucket_ms).toISOString(),
+    account: row.account,
+    kind: row.kind,
+    target: row.target,
+    checks: row.checks,
+    successes: row.successes,
+    failures: row.failures,
+    failuresByStep: parseExtra(row.failures_by_step) as Record<string, number>,
+    failuresByErrorType: parseExtra(row.failures_by_error_type) as Record<string, number>,
+    ...(responseTimeMs && { responseTimeMs }),
+    ...(ttfbMs && { ttfbMs }),
+  };
+}
+
+export function createSqliteBackend(path: string, legacyJsonPath?: string): StorageBackend {
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  db.exec(SCHEMA);
+  migrateAccounts(db);
+
+  const insertRun = db.prepare(
+    "INSERT INTO runs (timestamp, ts_ms, has_streams, account) VALUES (?, ?, ?, ?)"
+  );
+  const insertApi = db.prepare(
+    `INSERT INTO api_records (run_id, success, response_time_ms, http_status, error, extra)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  );
+  const insertStream = db.prepare(
+    `INSERT INTO stream_records
+       (run_id, stream_id, ts_ms, success, api_response_time_ms, ttfb_ms, http_status,
+        cdn_host, error_type, failure_step, extra)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const deleteOlder = db.prepare("DELETE FROM runs WHERE ts_ms <= ?");
+  const selectRuns = db.prepare<[number, number], RunRow>(
+    `SELECT id, timestamp, has_streams, account FROM runs
+     WHERE ts_ms > ? AND ts_ms <= ? ORDER BY ts_ms, id`
+  );
+  const selectApi = db.prepare<[number, number], ApiRow>(
+    `SELECT a.* FROM api_records a JOIN runs r ON r.id = a.run_id
+     WHERE r.ts_ms > ? AND r.ts_ms <= ?`
+  );
+  const selectStreams = db.prepare<[number, number], StreamRow>(
+    `SELECT * FROM stream_records WHERE ts_ms > ? AND ts_ms <= ? ORDER BY run_id, rowid`
+  );
+  const selectStreamRuns = db.prepare<[string, number, number], RunRow & StreamRow>(
+    `SELECT r.id, r.timestamp, r.has_streams, r.account, s.* FROM stream_records s
+     JOIN runs r ON r.id = s.run_id
+     WHERE s.stream_id = ? AND s.ts_ms > ? AND s.ts_ms <= ?
+     ORDER BY s.ts_ms, r.id`
+  );
+  const selectRunsPage = db.prepare<[number, number, number, number, number], PagedRunRow>(
+    `SELECT id, timestamp, has_streams, account, ts_ms FROM runs
+     WHERE ts_ms > ? AND ts_ms <= ? AND (ts_ms, id) > (?, ?)
+     ORDER BY ts_ms, id LIMIT ?`
+  );
+  const selectStreamRunsPage = db.prepare<
+    [string, number, number, number, number, number],
+    RunRow & StreamRow
+  >(
+    `SELECT r.id, r.timestamp, r.has_streams, r.account, s.* FROM stream_records s
+     JOIN runs r ON r.id = s.run_id
+     WHERE s.stream_id = ? AND s.ts_ms > ? AND s.ts_ms <= ? AND (s.ts_ms, r.id) > (?, ?)
+     ORDER BY s.ts_ms, r.id LIMIT ?`
+  );
+  const selectLatestRun = db.prepare<[number], RunRow>(
+    "SELECT id, timestamp, has_streams, account FROM runs WHERE ts_ms > ? ORDER BY ts_ms DESC, id DESC LIMIT 1"
+  );
+  const selectApiByRun = db.prepare<[number], ApiRow>(
+    "SELECT * FROM api_records WHERE run_id = ?"
+  );
+  const selectStreamsByRun = db.prepare<[number], StreamRow>(
+    "SELECT * FROM stream_records WHERE run_id = ? ORDER BY rowid"
+  );
+  const upsertRollup = db.prepare(
+    `INSERT OR REPLACE INTO rollups (${ROLLUP_COLUMNS})
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const selectRollups = db.prepare<[RollupResolution, number, number], RollupRow>(
+    `SELECT * FROM rollups WHERE resolution = ? AND bucket_ms >= ? AND bucket_ms <= ?
+     ORDER BY bucket_ms, account, kind, target`
+  );
+  const selectRollupsForTarget = db.prepare<
+    [RollupResolution, number, number, string],
+    RollupRow
+  >(
+    `SELECT * FROM rollups WHERE resolution = ? AND bucket_ms >= ? AND bucket_ms <= ? AND target = ?
+     ORDER BY bucket_ms, account, kind`
+  );
+  const selectLatestRollup = db.prepare<[RollupResolution], { bucket_ms: number | null }>(
+    "SELECT MAX(bucket_ms) AS bucket_ms FROM rollups WHERE resolution = ?"
+  );
+  const deleteRollupsOlder = db.prepare(
+    "DELETE FROM rollups WHERE resolution = ? AND bucket_ms <= ?"
+  );
+  const selectRunsAt = db.prepare<[number, string], { id: number }>(
+    "SELECT id FROM runs WHERE ts_ms = ? AND account = ? ORDER BY id"
+  );
+  const selectApiAt = db.prepare<[number, string], { run_id: number }>(
+    `SELECT a.run_id FROM api_records a JOIN runs r ON r.id = a.run_id
+     WHERE r.ts_ms = ? AND r.account = ? LIMIT 1`
+  );
+  const selectStreamAt = db.prepare<[string, number, string], { run_id: number }>(
+    `SELECT s.run_id FROM stream_records s JOIN runs r ON r.id = s.run_id
+     WHERE s.stream_id = ? AND s.ts_ms = ? AND r.account = ? LIMIT 1`
+  );
+  const markHasStreams = db.prepare("UPDATE runs SET has_streams = 1 WHERE id = ?");
+  const getMeta = db.prepare<[string], { value: string }>("SELECT value FROM meta WHERE key = ?");
+  const setMeta = db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)");
+
+  const insertRecords = (runId: number, tsMs: number, entry: HistoryEntry): void => {
+    if (entry.api) {
+      const a = entry.api;
+      insertApi.run(
+        runId,
+        a.success ? 1 : 0,
+        a.responseTimeMs ?? null,
+        a.httpStatus ?? null,
+        a.error ?? null,
+        extraOf(a, API_COLUMNS)
+      );
+    }
+    for (const [streamId, s] of Object.entries(entry.streams ?? {})) {
+      insertStream.run(
+        runId,
+        streamId,
+        tsMs,
+        s.success ? 1 : 0,
+        s.apiResponseTimeMs ?? null,
+        s.ttfbMs ?? null,
+        s.httpStatus ?? null,
+        s.cdnHost ?? null,
+        s.errorType ?? null,
+        s.failureStep ?? null,
+        extraOf(s, STREAM_COLUMNS)
+      );
+    }
+  };
+
+  const insertEntry = (entry: HistoryEntry): void => {
+    const tsMs = new Date(entry.timestamp).getTime();
+    const runId = Number(
+      insertRun.run(entry.timestamp, tsMs, entry.streams ? 1 : 0, entryAccount(entry)).lastInsertRowid
+    );
+    insertRecords(runId, tsMs, entry);
+  };
+
+  const appendTx = db.transaction((entry: HistoryEntry) => insertEntry(entry));
+
+  /** Insert only targets not already stored at the same timestamp; attach them to an existing run if any. */
+  const mergeTx = db.transaction((entries: HistoryEntry[]) => {
+    let added = 0;
+    let duplicates = 0;
+    for (const entry of entries) {
+      const tsMs = new Date(entry.timestamp).getTime();
+      const account = entryAccount(entry);
+      const fresh: HistoryEntry = { timestamp: entry.timestamp, account };
+      if (entry.api) {
+        if (selectApiAt.get(tsMs, account)) duplicates += 1;
+        else {
+          fresh.api = entry.api;
+          added += 1;
+        }
+      }
+      for (const [streamId, rec] of Object.entries(entry.streams ?? {})) {
+        if (selectStreamAt.get(streamId, tsMs, account)) {
+          duplicates += 1;
+          continue;
+        }
+        fresh.streams = { ...fresh.streams, [streamId]: rec };
+        added += 1;
+      }
+      if (!fresh.api && !fresh.streams) continue;
+      const existing = selectRunsAt.get(tsMs, account);
+      if (existing) {
+        if (fresh.streams) markHasStreams.run(existing.id);
+        insertRecords(existing.id, tsMs, fresh);
+      } else {
+        insertEntry(fresh);
+      }
+    }
+    return { added, duplicates };
+  });
+
+  const upsertRollupsTx = db.transaction((rollups: Rollup[]) => {
+    for (const r of rollups) {
+      const rt = r.responseTimeMs;
+      const ttfb = r.ttfbMs;
+      upsertRollup.run(
+        r.resolution,
+        new Date(r.bucketStart).getTime(),
+        r.account,
+        r.kind,
+        r.target,
+        r.checks,
+        r.successes,
+        r.failures,
+        JSON.stringify(r.failuresByStep),
+        JSON.stringify(r.failuresByErrorType),
+        rt?.min ?? null,
+        rt?.max ?? null,
+        rt?.sum ?? null,
+        rt?.count ?? null,
+        ttfb?.min ?? null,
+        ttfb?.max ?? null,
+        ttfb?.sum ?? null,
+        ttfb?.count ?? null
+      );
+    }
+  });
+
+  /** Assemble entries for all runs in (afterMs, toMs], oldest first. */
+  const readRange = (afterMs: number, toMs: number): HistoryEntry[] => {
+    const runs = selectRuns.all(afterMs, toMs);
+    const apiByRun = new Map<number, ApiRow>();
+    for (const row of selectApi.all(afterMs, toMs)) apiByRun.set(row.run_id, row);
+    const streamsByRun = new Map<number, StreamRow[]>();
+    for (const row of selectStreams.all(afterMs, toMs)) {
+      const list = streamsByRun.get(row.run_id) ?? [];
+      list.push(row);
+      streamsByRun.set(row.run_id, list);
+    }
+    return runs.map((run) => toEntry(run, apiByRun.get(run.id), streamsByRun.get(run.id)));
+  };
+
+  const toEntry = (run: RunRow, api?: ApiRow, streams?: StreamRow[]): HistoryEntry => {
+    const entry: HistoryEntry = { timestamp: run.timestamp, account: run.account };
+    if (api) entry.api = apiFromRow(api);
+    if (run.has_streams || streams?.length) {
+      entry.streams = {};
+      for (const row of streams ?? []) entry.streams[row.stream_id] = streamFromRow(row);
+    }
+    return entry;
+  };
+
+  migrateFromJson(db, legacyJsonPath, insertEntry, getMeta, setMeta);
+
+  return {
+    append(entry) {
+      appendTx(entry);
+    },
+
+    merge(entries) {
+      return mergeTx(entries);
+    },
+
+    compact(cutoffMs) {
+      return deleteOlder.run(cutoffMs).changes;
+    },
+
+    readAll(cutoffMs) {
+      return readRange(cutoffMs, Number.MAX_SAFE_INTEGER);
+    },
+
+    query(q: HistoryQuery, cutoffMs) {
+      const { fromMs, toMs } = queryRange(q);
+      const afterMs = fromMs !== undefined ? Math.max(cutoffMs, fromMs - 1) : cutoffMs;
+      const upToMs = toMs ?? Number.MAX_SAFE_INTEGER;
+      const streamId = queryStreamId(q);
+      if (streamId === undefined) {
+        return readRange(afterMs, upToMs).filter((e) => matchesAccount(q, entryAccount(e)));
+      }
+      return selectStreamRuns
+        .all(streamId, afterMs, upToMs)
+        .filter((row) => matchesAccount(q, row.account))
+        .map((row) => ({
+          timestamp: row.timestamp,
+          account: row.account,
+          streams: { [streamId]: streamFromRow(row) },
+        }));
+    },
+
+    *iterate(q: HistoryQuery, cutoffMs) {
+      const { fromMs, toMs } = queryRange(q);
+      const afterMs = fromMs !== undefined ? Math.max(cutoffMs, fromMs - 1) : cutoffMs;
+      const upToMs = toMs ?? Number.MAX_SAFE_INTEGER;
+      const streamId = queryStreamId(q);
+      // Keyset pagination: each page is a short query, so no cursor stays open between pages.
+      let lastTs = Number.MIN_SAFE_INTEGER;
+      let lastId = 0;
+      for (;;) {
+        if (streamId === undefined) {
+          const page = selectRunsPage.all(afterMs, upToMs, lastTs, lastId, ITERATE_PAGE_SIZE);
+          for (const run of page) {
+            if (!matchesAccount(q, run.account)) continue;
+            yield toEntry(run, selectApiByRun.get(run.id), selectStreamsByRun.all(run.id));
+          }
+          if (page.length < ITERATE_PAGE_SIZE) return;
+          lastTs = page[page.length - 1].ts_ms;
+          lastId = page[page.length - 1].id;
+        } else {
+          const page = selectStreamRunsPage.all(
+            streamId,
+            afterMs,
+            upToMs,
+            lastTs,
+            lastId,
+            ITERATE_PAGE_SIZE
+          );
+          for (const row of page) {
+            if (!matchesAccount(q, row.account)) continue;
+            yield {
+              timestamp: row.timestamp,
+              account: row.account,
+              streams: { [streamId]: streamFromRow(row) },
+            };
+          }
+          if (page.length < ITERATE_PAGE_SIZE) return;
+          lastTs = page[page.length - 1].ts_ms;
+          lastId = page[page.length - 1].id;
+        }
+      }
+    },
+
+    latest(cutoffMs) {
+      const run = selectLatestRun.get(cutoffMs);
+      if (!run) return null;
+      return toEntry(run, selectApiByRun.get(run.id), selectStreamsByRun.all(run.id));
+    },
+
+    upsertRollups(rollups) {
+      upsertRollupsTx(rollups);
+    },
+
+    readRollups(resolution, q) {
+      const fromMs = q.fromMs ?? 0;
+      const toMs = q.toMs ?? Number.MAX_SAFE_INTEGER;
+      const rows =
+        q.target === undefined
+          ? selectRollups.all(resolution, fromMs, toMs)
+          : selectRollupsForTarget.all(resolution, fromMs, toMs, q.target);
+      return rows.filter((row) => matchesAccount(q, row.account)).map(rollupFromRow);
+    },
+
+    latestRollupStart(resolution) {
+      return selectLatestRollup.get(resolution)?.bucket_ms ?? null;
+    },
+
+    pruneRollups(resolution, cutoffMs) {
+      return deleteRollupsOlder.run(resolution, cutoffMs).changes;
+    },
+  };
+}
+
+/**
+ * Databases created before accounts existed: runs get an account column (existing runs belong to the default
+ * account) and rollups are rebuilt with the account in their primary key.
+ */
+function migrateAccounts(db: Database.Database): void {
+  const hasAccount = (table: string) =>
+    (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).some(
+      (c) => c.name === "account"
+    );
+  if (!hasAccount("runs")) {
+    db.exec(`ALTER TABLE runs ADD COLUMN account TEXT NOT NULL DEFAULT '${DEFAULT_ACCOUNT}'`);
+  }
+  if (!hasAccount("rollups")) {
+    const legacyColumns = ROLLUP_COLUMNS.replace("account, ", "");
+    db.transaction(() => {
+      db.exec("ALTER TABLE rollups RENAME TO rollups_legacy");
+      db.exec(SCHEMA);
+      db.exec(
+        `INSERT INTO rollups (${legacyColumns}) SELECT ${legacyColumns} FROM rollups_legacy;
+         DROP TABLE rollups_legacy;`
+      );
+    })();
+    console.log(JSON.stringify({ msg: "storage_migrated", to: "accounts" }));
+  }
+}
+
+/**
+ * One-shot import of an existing NDJSON history file. Runs once per database; the source
+ * file is renamed to `<path>.migrated` so it is never imported twice.
+ */
+function migrateFromJson(
+  db: Database.Database,
+  jsonPath: string | undefined,
+  insertEntry: (entry: HistoryEntry) => void,
+  getMeta: Database.Statement<[string], { value: string }>,
+  setMeta: Database.Statement
+): void {
+  if (!jsonPath || getMeta.get("json_migrated_at")) return;
+  if (!existsSync(jsonPath)) return;
+  const entries = loadEntries(jsonPath);
+  db.transaction(() => {
+    for (const entry of entries) insertEntry(entry);
+    setMeta.run("json_migrated_at", new Date().toISOString());
+  })();
+  renameSync(jsonPath, `${jsonPath}.migrated`);
+  console.log(
+    JSON.stringify({ msg: "storage_migrated", from: jsonPath, entries: entries.length })
+  );
+}
@@ -0,0 +1,236 @@
+/**
+ * History record shapes and the backend contract shared by the JSON and SQLite stores.
+ */
+
+/** Derived target state: confirmed up/down after the CONFIRM_* thresholds, or flapping. */
+export type TargetState = "up" | "down" | "flapping";
+
+export interface ApiRecord {
+  success: boolean;
+  responseTimeMs: number;
+  httpStatus: number;
+  error?: string;
+  /** Checked during a maintenance window; excluded from uptime, rollups and incidents. */
+  maintenance?: boolean;
+  /** Derived state after this check (see TargetState); `success` stays the raw result. */
+  state?: TargetState;
+}
+
+/** One try of a stream check step (list, info, unrestrict, HEAD or instant); see RETRY_ATTEMPTS. */
+export interface StreamAttempt {
+  step: "list" | "info" | "unrestrict" | "head" | "instant";
+  /** 1 for the first try. */
+  attempt: number;
+  success: boolean;
+  durationMs: number;
+  httpStatus?: number;
+  error?: string;
+}
+
+/** Sustained download measured in throughput mode (streams with `throughput` or `targetMbps`). */
+export interface StreamThroughput {
+  bytes: number;
+  /** From the response headers to the end of the download. */
+  durationMs: number;
+  /** bytes * 8 / durationMs, in megabits per second. */
+  mbps: number;
+  /** From the request to the first MiB; missing when less was downloaded. */
+  timeToFirstMbMs?: number;
+  /** Gaps between chunks longer than the stall threshold. */
+  stalls: number;
+  stalledMs: number;
+  /** Target bitrate from the StreamDef, when set. */
+  targetMbps?: number;
+}
+
+/** One range request of the seek probe. */
+export interface SeekProbe {
+  position: "middle" | "end" | "random";
+  offset: number;
+  /** Time to the response headers; the body is a small range. */
+  latencyMs: number;
+  httpStatus: number;
+  /** 206 (or 200) with data. */
+  ok: boolean;
+}
+
+/** Seek probe results (streams with `seek`). */
+export interface StreamSeek {
+  fileSize: number;
+  probes: SeekProbe[];
+  maxLatencyMs: number;
+  /** The head (HEAD TTFB) was fast but a range further in was slower than the seek threshold or failed. */
+  coldRangeStall: boolean;
+}
+
+/**
+ * Connection phases of the CDN HEAD (last redirect hop). A phase is missing when it did not happen, e.g. no
+ * DNS lookup for an IP host or no TLS over plain HTTP.
+ */
+export interface StreamTiming {
+  dnsMs?: number;
+  /** TCP connect, after DNS. */
+  connectMs?: number;
+  /** TLS handshake, after connect. */
+  tlsMs?: number;
+  /** From the request being sent on the open connection to the response headers. */
+  firstByteMs: number;
+  /** Total time spent on earlier redirect hops. */
+  redirectMs: number;
+  redirects: number;
+  /** Resolved IP of the host that answered. */
+  remoteAddress?: string;
+}
+
+/** One file variant Real-Debrid returned for a hash (a set of files it can serve instantly). */
+export interface InstantVariant {
+  host: string;
+  fileIds: number[];
+  /** Sum of the variant's file sizes. */
+  bytes: number;
+}
+
+/** Instant availability of one hash (streams of type "instant"). */
+export interface InstantHash {
+  hash: string;
+  available: boolean;
+  /** Hosts in the response, including those without variants. */
+  hosts: string[];
+  variants: InstantVariant[];
+}
+
+/** One step of a lifecycle check, timed including its retries. */
+export interface LifecycleStep {
+  step: "add_magnet" | "select_files" | "wait_links" | "unrestrict" | "head" | "delete";
+  success: boolean;
+  durationMs: number;
+  httpStatus?: number;
+}
+
+/** Lifecycle check (streams of type "lifecycle"): add, select, wait, unrestrict, HEAD, delete. */
+export interface StreamLifecycle {
+  /** Torrent id of the added item; missing when the add failed. */
+  itemId?: string;
+  steps: LifecycleStep[];
+  /** The item was deleted again; when false it is removed at the next startup. */
+  deleted: boolean;
+}
+
+export interface StreamRecord {
+  success: boolean;
+  apiResponseTimeMs?: number;
+  /** Total HEAD time to the response headers, redirects included; broken down in `timing`. */
+  ttfbMs?: number;
+  httpStatus?: number;
+  cdnHost?: string;
+  errorType?: string;
+  /** Why the check failed (e.g. instant_unavailable, no_links); only when success is false */
+  failureStep?: string;
+  /** Checked during a maintenance window; excluded from uptime, rollups and incidents. */
+  maintenance?: boolean;
+  /** Derived state after this check (see TargetState); `success` stays the raw result. */
+  state?: TargetState;
+  /** Every step attempt in order, including retries. */
+  attempts?: StreamAttempt[];
+  timing?: StreamTiming;
+  throughput?: StreamThroughput;
+  seek?: StreamSeek;
+  lifecycle?: StreamLifecycle;
+  /** Instant checks: result per hash, in config order. */
+  instant?: InstantHash[];
+  /**
+   * The check could not run because Real-Debrid disabled the endpoint (success is false). Not an outage:
+   * excluded from state, uptime, rollups, incidents and alerts like maintenance.
+   */
+  unsupported?: boolean;
+}
+
+export interface HistoryEntry {
+  timestamp: string;
+  /** Account that ran the check; entries written before accounts existed belong to DEFAULT_ACCOUNT. */
+  account?: string;
+  api?: ApiRecord;
+  streams?: Record<string, StreamRecord>;
+}
+
+/**
+ * Newest record of every target merged into one entry (see latestPerTarget). `timestamp` is the newest check;
+ * `checkedAt` maps "api" and each stream id to the timestamp of its own record.
+ */
+export interface CurrentEntry extends HistoryEntry {
+  checkedAt: Record<string, string>;
+}
+
+/** Filters accepted by /status/history. Invalid timestamps are ignored. */
+export interface HistoryQuery {
+  from?: string;
+  to?: string;
+  /** When set, only entries of this account are returned. */
+  account?: string;
+  /** When set, only entries containing this stream are returned, as `{ timestamp, account, streams: { [streamId] } }`. */
+  streamId?: string;
+}
+
+export type RollupResolution = "hour" | "day";
+
+/** Mergeable latency summary; avg = sum / count. */
+export interface LatencyAggregate {
+  min: number;
+  max: number;
+  sum: number;
+  count: number;
+}
+
+/** Downsampled checks for one target in one UTC hour or day. */
+export interface Rollup {
+  resolution: RollupResolution;
+  /** Bucket start (ISO 8601, UTC-aligned). */
+  bucketStart: string;
+  account: string;
+  kind: "api" | "stream";
+  /** "api" for the API check, otherwise the stream id. */
+  target: string;
+  checks: number;
+  successes: number;
+  failures: number;
+  failuresByStep: Record<string, number>;
+  failuresByErrorType: Record<string, number>;
+  /** API check: responseTimeMs; stream: apiResponseTimeMs. */
+  responseTimeMs?: LatencyAggregate;
+  ttfbMs?: LatencyAggregate;
+}
+
+export interface RollupQuery {
+  fromMs?: number;
+  toMs?: number;
+  account?: string;
+  target?: string;
+}
+
+export interface StorageBackend {
+  /** Persist one entry. Cheap: never rewrites existing history. */
+  append(entry: HistoryEntry): void;
+  /**
+   * Merge entries (sorted oldest first) into history, skipping any target already stored for the same
+   * account at the same timestamp. Counts are per target record (the API check or one stream).
+   */
+  merge(entries: HistoryEntry[]): { added: number; duplicates: number };
+  /** Drop entries at or before the cutoff; returns how many were removed. */
+  compact(cutoffMs: number): number;
+  /** Entries newer than the cutoff, oldest first. */
+  readAll(cutoffMs: number): HistoryEntry[];
+  /** Entries newer than the cutoff matching the query, oldest first. */
+  query(q: HistoryQuery, cutoffMs: number): HistoryEntry[];
+  /** Like query(), but produced page by page so large ranges are never held in memory. */
+  iterate(q: HistoryQuery, cutoffMs: number): Iterable<HistoryEntry>;
+  /** Most recent entry newer than the cutoff, or null. */
+  latest(cutoffMs: number): HistoryEntry | null;
+  /** Insert or replace rollups (keyed by resolution, bucketStart, account, kind, target). */
+  upsertRollups(rollups: Rollup[]): void;
+  /** Rollups of one resolution by bucket start (inclusive bounds), oldest first. */
+  readRollups(resolution: RollupResolution, q: RollupQuery): Rollup[];
+  /** Start (ms) of the newest stored bucket, or null when there are none. */
+  latestRollupStart(resolution: RollupResolution): number | null;
+  /** Drop rollups whose bucket starts at or before the cutoff; returns how many were removed. */
+  pruneRollups(resolution: RollupResolution, cutoffMs: number): number;
+}
@@ -1,16 +1,53 @@
 /**
- * Streaming health checks: instant availability, unrestrict link, CDN HEAD/GET for TTFB.
+ * Streaming health checks: instant availability, unrestrict link, CDN HEAD/GET for TTFB and connection timings,
+ * optional seek probe and throughput sample.
+ * Each step (list, info, unrestrict, HEAD, instant) is retried with exponential backoff on transient failures
+ * (network, timeout, 429, 5xx); every attempt is returned in `attempts`.
  */
 
 import {
+  addMagnet,
+  deleteFromCache,
   getCacheList,
   getCacheInfo,
   getDownloadsList,
+  getInstantAvailability,
+  selectFiles,
   unrestrictLink,
+  type CacheInfoResult,
+  type InstantAvailabilityResponse,
 } from "./rdClient.js";
-import type { StreamDef } from "./config.js";
+import {
+  getRetryAttempts,
+  getRetryBackoffMaxMs,
+  getRetryBackoffMs,
+  type StreamDef,
+} from "./config.js";
+import { probeSeek } from "./seek.js";
+import {
+  handOverLifecycleItem,
+  releaseLifecycleItem,
+  setLifecycleItemId,
+  trackLifecycleItem,
+} from "./lifecycle.js";
+import type {
+  InstantHash,
+  LifecycleStep,
+  StreamAttempt,
+  StreamLifecycle,
+  StreamSeek,
+  StreamThroughput,
+  StreamTiming,
+} from "./storage.js";
+import { measureThroughput } from "./throughput.js";
+import { timedRequest, type TimedResponse } from "./timing.js";
 
 const REQUEST_TIMEOUT_MS = 30_000;
+/** Lifecycle checks: how long to wait for links after selecting files, and how often to look. */
+const DEFAULT_LIFECYCLE_WAIT_SECONDS = 60;
+const LIFECYCLE_POLL_MS = 2_000;
+/** Torrent statuses after which links will never appear. */
+const LIFECYCLE_DEAD_STATUSES = new Set(["magnet_error", "error", "virus", "dead"]);
 
 export type StreamErrorType =
   | "timeout"
@@ -22,13 +59,19 @@ export type StreamErrorType =
 
 export type StreamFailureStep =
   | "instant_unavailable"
+  | "instant_failed"
+  | "instant_unsupported"
   | "add_magnet_failed"
   | "select_files_failed"
   | "no_links"
   | "unrestrict_failed"
   | "cdn_head_failed"
   | "cache_not_in_account"
-  | "download_not_found";
+  | "download_not_found"
+  | "deadline_exceeded"
+  | "seek_failed"
+  | "throughput_failed"
+  | "throughput_too_slow";
 
 export interface StreamCheckResult {
   success: boolean;
@@ -36,9 +79,40 @@ export interface StreamCheckResult {
   ttfbMs?: number;
   httpStatus?: number;
   cdnHost?: string;
+  /** Connection phases of the CDN HEAD. */
+  timing?: StreamTiming;
   errorType?: StreamErrorType;
   /** Why the check failed (for logging); only set when success is false */
   failureStep?: StreamFailureStep;
+  /** Every step attempt in order, including retries. */
+  attempts?: StreamAttempt[];
+  /** Throughput mode only. */
+  throughput?: StreamThroughput;
+  /** Streams with `seek` only. */
+  seek?: StreamSeek;
+  /** Lifecycle checks only. */
+  lifecycle?: StreamLifecycle;
+  /** Instant checks only. */
+  instant?: InstantHash[];
+  /** Instant checks: the endpoint is disabled for this account; not counted as down. */
+  unsupported?: boolean;
+}
+
+/**
+ * Attempts of one check, plus the time spent waiting between retries (not counted as API time) and the signal
+ * that cancels the check.
+ */
+interface AttemptLog {
+  attempts: StreamAttempt[];
+  waitedMs: number;
+  signal?: AbortSignal;
+}
+
+/** Outcome of one attempt as seen by the retry loop. */
+interface StepOutcome {
+  success: boolean;
+  httpStatus?: number;
+  error?: string;
 }
 
 function classifyError(status: number, message?: string): StreamErrorType {
@@ -55,6 +129,63 @@ function classifyError(status: number, message?: string): StreamErrorType {
   return "unknown";
 }
 
+/** No status (network error / timeout), 429 and 5xx are worth retrying; other failures are not. */
+function isRetryable(o: StepOutcome): boolean {
+  const status = o.httpStatus ?? 0;
+  return status === 0 || status === 429 || status >= 500;
+}
+
+/** Resolves after `ms`, or early when `signal` aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Run one step up to RETRY_ATTEMPTS times, waiting RETRY_BACKOFF_MS (doubled per retry, capped at
+ * RETRY_BACKOFF_MAX_MS) between attempts. Returns the last result; no retry once the check is aborted.
+ */
+async function withRetry<T>(
+  log: AttemptLog,
+  step: StreamAttempt["step"],
+  run: () => Promise<T>,
+  outcome: (result: T) => StepOutcome
+): Promise<T> {
+  const maxAttempts = getRetryAttempts(step);
+  for (let attempt = 1; ; attempt++) {
+    const start = Date.now();
+    const result = await run();
+    const o = outcome(result);
+    log.attempts.push({
+      step,
+      attempt,
+      success: o.success,
+      durationMs: Date.now() - start,
+      ...(o.httpStatus != null && { httpStatus: o.httpStatus }),
+      ...(o.error && { error: o.error }),
+    });
+    if (o.success || attempt >= maxAttempts || !isRetryable(o) || log.signal?.aborted) return result;
+    const delayMs = Math.min(getRetryBackoffMs() * 2 ** (attempt - 1), getRetryBackoffMaxMs());
+    log.waitedMs += delayMs;
+    await sleep(delayMs, log.signal);
+  }
+}
+
+/** HEAD with retries; success means a 2xx/3xx status. */
+function headWithRetry(log: AttemptLog, url: string): Promise<HeadResult> {
+  return withRetry(log, "head", () => headWithTtfb(url, log.signal), (r) => ({
+    success: r.httpStatus >= 200 && r.httpStatus < 400,
+    httpStatus: r.httpStatus,
+  }));
+}
+
 /** Extract hostname from URL (e.g. rbx-cdn.real-debrid.com). */
 function hostFromUrl(url: string): string {
   try {
@@ -64,61 +195,119 @@ function hostFromUrl(url: string): string {
   }
 }
 
-/** HEAD request with TTFB; fallback to GET with Range if HEAD fails or is not supported. */
-async function headWithTtfb(
-  url: string
-): Promise<{ ttfbMs: number; httpStatus: number; host: string }> {
+/** Result of the CDN HEAD; `timing` is missing when no response arrived. */
+interface HeadResult {
+  ttfbMs: number;
+  httpStatus: number;
+  host: string;
+  timing?: StreamTiming;
+}
+
+/**
+ * HEAD request with TTFB and connection timings; fallback to GET with Range if HEAD fails or is not supported.
+ * `ttfbMs` runs from the first request, so it includes a failed HEAD before the fallback.
+ */
+async function headWithTtfb(url: string, signal?: AbortSignal): Promise<HeadResult> {
   const start = Date.now();
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const done = (res: TimedResponse): HeadResult => ({
+    ttfbMs: Date.now() - start,
+    httpStatus: res.status,
+    host: hostFromUrl(res.url),
+    timing: res.timing,
+  });
+  let head: TimedResponse | undefined;
   try {
-    let res = await fetch(url, {
-      method: "HEAD",
-      redirect: "follow",
-      signal: controller.signal,
-    });
-    const ttfbMs = Date.now() - start;
-    clearTimeout(timeout);
-    if (res.ok) {
-      return { ttfbMs, httpStatus: res.status, host: hostFromUrl(res.url) };
-    }
-    if (res.status === 405 || res.status === 501) {
-      const getRes = await fetch(url, {
-        method: "GET",
-        headers: { Range: "bytes=0-0" },
-        redirect: "follow",
-        signal: new AbortController().signal,
-      });
-      const ttfbGet = Date.now() - start;
-      return {
-        ttfbMs: ttfbGet,
-        httpStatus: getRes.status,
-        host: hostFromUrl(getRes.url),
-      };
-    }
-    return { ttfbMs, httpStatus: res.status, host: hostFromUrl(res.url) };
+    head = await timedRequest(url, "HEAD", {}, REQUEST_TIMEOUT_MS, signal);
+    if (head.status !== 405 && head.status !== 501) return done(head);
   } catch {
-    clearTimeout(timeout);
-    const ttfbMs = Date.now() - start;
-    try {
-      const getRes = await fetch(url, {
-        method: "GET",
-        headers: { Range: "bytes=0-0" },
-        redirect: "follow",
-      });
-      return {
-        ttfbMs: Date.now() - start,
-        httpStatus: getRes.status,
-        host: hostFromUrl(getRes.url),
-      };
-    } catch {
+    // fall through to the ranged GET
+  }
+  const failedAt = Date.now() - start;
+  try {
+    return done(await timedRequest(url, "GET", { Range: "bytes=0-0" }, REQUEST_TIMEOUT_MS, signal));
+  } catch {
+    if (head) return { ...done(head), ttfbMs: failedAt };
+    return { ttfbMs: failedAt, httpStatus: 0, host: hostFromUrl(url) };
+  }
+}
+
+/** Outcome of a Real-Debrid API call (rdClient results never throw). */
+function rdOutcome(r: { success: boolean; httpStatus?: number; error?: string }): StepOutcome {
+  return { success: r.success, httpStatus: r.httpStatus, error: r.error };
+}
+
+/**
+ * Last part of every check: HEAD the CDN link for TTFB; with `seek` on the stream, range requests further
+ * into the file (needs `fileSize`); in throughput mode (`throughput` or `targetMbps`), download a sample and
+ * compare its bitrate with `targetMbps`.
+ */
+async function probeCdn(
+  log: AttemptLog,
+  stream: StreamDef,
+  downloadUrl: string,
+  fallbackHost: string | undefined,
+  apiResponseTimeMs: number,
+  fileSize: number | undefined
+): Promise<StreamCheckResult> {
+  const { ttfbMs, httpStatus, host, timing } = await headWithRetry(log, downloadUrl);
+  const cdn = {
+    apiResponseTimeMs,
+    ttfbMs,
+    httpStatus,
+    cdnHost: host || fallbackHost,
+    ...(timing && { timing }),
+  };
+  if (httpStatus < 200 || httpStatus >= 400) {
+    return {
+      success: false,
+      ...cdn,
+      errorType: classifyError(httpStatus),
+      failureStep: "cdn_head_failed",
+    };
+  }
+
+  let seek: StreamSeek | undefined;
+  if (stream.seek && fileSize) {
+    seek = await probeSeek(downloadUrl, fileSize, ttfbMs, stream.seek, log.signal);
+    const failed = seek.probes.find((p) => !p.ok);
+    if (failed) {
       return {
-        ttfbMs,
-        httpStatus: 0,
-        host: hostFromUrl(url),
+        success: false,
+        ...cdn,
+        seek,
+        errorType: classifyError(failed.httpStatus),
+        failureStep: "seek_failed",
       };
     }
   }
+  if (!stream.throughput && stream.targetMbps === undefined) {
+    return { success: true, ...cdn, ...(seek && { seek }) };
+  }
+
+  const measured = await measureThroughput(
+    downloadUrl,
+    stream.throughput,
+    stream.targetMbps,
+    log.signal
+  );
+  if (!measured.ok) {
+    return {
+      success: false,
+      ...cdn,
+      ...(seek && { seek }),
+      httpStatus: measured.httpStatus,
+      errorType: classifyError(measured.httpStatus, measured.error),
+      failureStep: "throughput_failed",
+    };
+  }
+  const tooSlow = stream.targetMbps !== undefined && measured.result.mbps < stream.targetMbps;
+  return {
+    success: !tooSlow,
+    ...cdn,
+    ...(seek && { seek }),
+    throughput: measured.result,
+    ...(tooSlow && { failureStep: "throughput_too_slow" as const }),
+  };
 }
 
 /** Extract download ID from real-debrid.com/d/ID URL. */
@@ -138,8 +327,9 @@ function parseDownloadId(url: string): string | null {
  */
 async function checkStreamByUrl(
   token: string,
-  _streamId: string,
-  url: string
+  stream: StreamDef,
+  url: string,
+  log: AttemptLog
 ): Promise<StreamCheckResult> {
   const apiStart = Date.now();
   const id = parseDownloadId(url);
@@ -151,11 +341,11 @@ async function checkStreamByUrl(
       failureStep: "download_not_found",
     };
   }
-  const list = await getDownloadsList(token);
+  const list = await withRetry(log, "list", () => getDownloadsList(token, log.signal), rdOutcome);
   if (!list.success || !list.downloads) {
     return {
       success: false,
-      apiResponseTimeMs: Date.now() - apiStart,
+      apiResponseTimeMs: Date.now() - apiStart - log.waitedMs,
       httpStatus: list.httpStatus ?? 0,
       errorType: list.httpStatus ? classifyError(list.httpStatus) : "unknown",
       failureStep: "download_not_found",
@@ -165,25 +355,13 @@ async function checkStreamByUrl(
   if (!download?.download) {
     return {
       success: false,
-      apiResponseTimeMs: Date.now() - apiStart,
+      apiResponseTimeMs: Date.now() - apiStart - log.waitedMs,
       errorType: "unknown",
       failureStep: "download_not_found",
     };
   }
-  const apiResponseTimeMs = Date.now() - apiStart;
-  const { ttfbMs, httpStatus, host } = await headWithTtfb(download.download);
-  const success = httpStatus >= 200 && httpStatus < 400;
-  return {
-    success,
-    apiResponseTimeMs,
-    ttfbMs,
-    httpStatus,
-    cdnHost: host || download.host,
-    ...(httpStatus >= 400 && {
-      errorType: classifyError(httpStatus) as StreamErrorType,
-      failureStep: "cdn_head_failed" as const,
-    }),
-  };
+  const apiResponseTimeMs = Date.now() - apiStart - log.waitedMs;
+  return probeCdn(log, stream, download.download, download.host, apiResponseTimeMs, download.filesize);
 }
 
 /**
@@ -192,15 +370,16 @@ async function checkStreamByUrl(
  */
 async function checkStreamByHash(
   token: string,
-  _streamId: string,
-  hash: string
+  stream: StreamDef,
+  hash: string,
+  log: AttemptLog
 ): Promise<StreamCheckResult> {
   const apiStart = Date.now();
-  const list = await getCacheList(token);
+  const list = await withRetry(log, "list", () => getCacheList(token, log.signal), rdOutcome);
   if (!list.success || !list.items) {
     return {
       success: false,
-      apiResponseTimeMs: Date.now() - apiStart,
+      apiResponseTimeMs: Date.now() - apiStart - log.waitedMs,
       httpStatus: list.httpStatus ?? 0,
       errorType: list.httpStatus ? classifyError(list.httpStatus) : "unknown",
       failureStep: "cache_not_in_account",
@@ -211,25 +390,31 @@ async function checkStreamByHash(
   if (!cache) {
     return {
       success: false,
-      apiResponseTimeMs: Date.now() - apiStart,
+      apiResponseTimeMs: Date.now() - apiStart - log.waitedMs,
       errorType: "unknown",
       failureStep: "cache_not_in_account",
     };
   }
-  const info = await getCacheInfo(token, cache.id);
+  const info = await withRetry(log, "info", () => getCacheInfo(token, cache.id, log.signal), rdOutcome);
   if (!info.success || !info.info?.links?.length) {
     return {
       success: false,
-      apiResponseTimeMs: Date.now() - apiStart,
+      apiResponseTimeMs: Date.now() - apiStart - log.waitedMs,
       errorType: "unknown",
       failureStep: "no_links",
     };
   }
-  const unrestrict = await unrestrictLink(token, info.info.links[0]);
+  const link = info.info.links[0];
+  const unrestrict = await withRetry(
+    log,
+    "unrestrict",
+    () => unrestrictLink(token, link, log.signal),
+    rdOutcome
+  );
   if (!unrestrict.success || !unrestrict.download) {
     return {
       success: false,
-      apiResponseTimeMs: Date.now() - apiStart,
+      apiResponseTimeMs: Date.now() - apiStart - log.waitedMs,
       httpStatus: unrestrict.httpStatus ?? 0,
       errorType: unrestrict.httpStatus
         ? classifyError(unrestrict.httpStatus)
@@ -237,37 +422,226 @@ async function checkStreamByHash(
       failureStep: "unrestrict_failed",
     };
   }
-  const apiResponseTimeMs = Date.now() - apiStart;
-  const { ttfbMs, httpStatus, host } = await headWithTtfb(unrestrict.download);
-  const success = httpStatus >= 200 && httpStatus < 400;
+  const apiResponseTimeMs = Date.now() - apiStart - log.waitedMs;
+  // links[] follows the selected files, so the first link is the first selected file.
+  const fileSize = info.info.files?.find((f) => f.selected === 1)?.bytes;
+  return probeCdn(log, stream, unrestrict.download, unrestrict.host, apiResponseTimeMs, fileSize);
+}
+
+/** Hosts and file variants returned for `hash`, read defensively (the endpoint's shape is loosely typed). */
+function instantHash(hash: string, data: InstantAvailabilityResponse | undefined): InstantHash {
+  const forHash = data?.[hash.toLowerCase()] ?? data?.[hash];
+  const hosts = forHash && typeof forHash === "object" && !Array.isArray(forHash) ? forHash : {};
+  const variants = Object.entries(hosts).flatMap(([host, list]) =>
+    (Array.isArray(list) ? list : []).map((files) => ({
+      host,
+      fileIds: Object.keys(files).map(Number).filter(Number.isFinite),
+      bytes: Object.values(files).reduce((sum, f) => sum + (f?.filesize ?? 0), 0),
+    }))
+  );
+  return { hash, available: variants.length > 0, hosts: Object.keys(hosts), variants };
+}
+
+/**
+ * Check instant availability of each hash in turn. Fails with instant_unavailable when any hash has no
+ * variants; stops at the first disabled_endpoint answer and reports the check as unsupported.
+ */
+async function checkStreamInstant(
+  token: string,
+  hashes: string[],
+  log: AttemptLog
+): Promise<StreamCheckResult> {
+  const apiStart = Date.now();
+  const results: InstantHash[] = [];
+  let httpStatus: number | undefined;
+  for (const hash of hashes) {
+    const res = await withRetry(
+      log,
+      "instant",
+      () => getInstantAvailability(token, hash, log.signal),
+      rdOutcome
+    );
+    httpStatus = res.httpStatus;
+    const apiResponseTimeMs = Date.now() - apiStart - log.waitedMs;
+    if (res.disabled) {
+      return {
+        success: false,
+        apiResponseTimeMs,
+        ...(httpStatus != null && { httpStatus }),
+        failureStep: "instant_unsupported",
+        unsupported: true,
+      };
+    }
+    if (!res.success) {
+      return {
+        success: false,
+        apiResponseTimeMs,
+        httpStatus: httpStatus ?? 0,
+        errorType: classifyError(httpStatus ?? 0, res.error),
+        failureStep: "instant_failed",
+        instant: results,
+      };
+    }
+    results.push(instantHash(hash, res.data));
+  }
+  const success = results.every((r) => r.available);
   return {
     success,
-    apiResponseTimeMs,
-    ttfbMs,
-    httpStatus,
-    cdnHost: host || unrestrict.host,
-    ...(httpStatus >= 400 && {
-      errorType: classifyError(httpStatus) as StreamErrorType,
-      failureStep: "cdn_head_failed" as const,
-    }),
+    apiResponseTimeMs: Date.now() - apiStart - log.waitedMs,
+    ...(httpStatus != null && { httpStatus }),
+    ...(!success && { failureStep: "instant_unavailable" as const }),
+    instant: results,
+  };
+}
+
+/**
+ * Poll the item until it has links, a dead status, `waitMs` passes or `signal` aborts; success means links are
+ * there.
+ */
+async function waitForLinks(
+  token: string,
+  itemId: string,
+  waitMs: number,
+  signal: AbortSignal | undefined
+): Promise<{ success: boolean; info?: CacheInfoResult; httpStatus?: number }> {
+  const until = Date.now() + waitMs;
+  for (;;) {
+    const res = await getCacheInfo(token, itemId, signal);
+    if (res.success && res.info?.links?.length && res.info.status === "downloaded") return res;
+    if (res.info && LIFECYCLE_DEAD_STATUSES.has(res.info.status)) return { ...res, success: false };
+    if (signal?.aborted || Date.now() + LIFECYCLE_POLL_MS > until) return { ...res, success: false };
+    await sleep(LIFECYCLE_POLL_MS, signal);
+  }
+}
+
+/**
+ * Full lifecycle: add the magnet, select all files, wait for links, unrestrict the first link and HEAD it (plus
+ * seek / throughput when configured), then always delete the item. Each step is timed in `lifecycle.steps`.
+ * The item is recorded as pending (see lifecycle.ts) from before the add until its delete succeeds. Aborting the check
+ * cancels every step except the delete.
+ */
+async function checkStreamLifecycle(
+  token: string,
+  account: string,
+  stream: StreamDef,
+  hash: string,
+  waitSeconds: number,
+  log: AttemptLog
+): Promise<StreamCheckResult> {
+  const apiStart = Date.now();
+  // Shared with the returned result, so the delete in `finally` still shows up in it.
+  const lifecycle: StreamLifecycle = { steps: [], deleted: false };
+  const timed = async <T extends { success: boolean; httpStatus?: number }>(
+    step: LifecycleStep["step"],
+    run: () => Promise<T>
+  ): Promise<T> => {
+    const start = Date.now();
+    const result = await run();
+    lifecycle.steps.push({
+      step,
+      success: result.success,
+      durationMs: Date.now() - start,
+      ...(result.httpStatus != null && { httpStatus: result.httpStatus }),
+    });
+    return result;
   };
+  const failed = (
+    failureStep: StreamFailureStep,
+    httpStatus: number | undefined
+  ): StreamCheckResult => ({
+    success: false,
+    apiResponseTimeMs: Date.now() - apiStart - log.waitedMs,
+    httpStatus: httpStatus ?? 0,
+    errorType: httpStatus ? classifyError(httpStatus) : "unknown",
+    failureStep,
+    lifecycle,
+  });
+
+  const pending = trackLifecycleItem(account, hash);
+  const added = await timed("add_magnet", () => addMagnet(token, hash, log.signal));
+  if (!added.success || !added.id) {
+    // An HTTP error means nothing was added; otherwise (timeout, abort, no id) the next cleanup looks it up.
+    if (!added.success && added.httpStatus != null) releaseLifecycleItem(pending);
+    else handOverLifecycleItem(pending);
+    return failed("add_magnet_failed", added.httpStatus);
+  }
+  const itemId = added.id;
+  lifecycle.itemId = itemId;
+  setLifecycleItemId(pending, itemId);
+  try {
+    const selected = await timed("select_files", () =>
+      selectFiles(token, itemId, "all", log.signal)
+    );
+    if (!selected.success) return failed("select_files_failed", selected.httpStatus);
+    const ready = await timed("wait_links", () =>
+      waitForLinks(token, itemId, waitSeconds * 1000, log.signal)
+    );
+    if (!ready.success || !ready.info?.links?.length) return failed("no_links", ready.httpStatus);
+    const link = ready.info.links[0];
+    const unrestrict = await timed("unrestrict", () =>
+      withRetry(log, "unrestrict", () => unrestrictLink(token, link, log.signal), rdOutcome)
+    );
+    if (!unrestrict.success || !unrestrict.download) {
+      return failed("unrestrict_failed", unrestrict.httpStatus);
+    }
+    const apiResponseTimeMs = Date.now() - apiStart - log.waitedMs;
+    const fileSize = ready.info.files?.find((f) => f.selected === 1)?.bytes;
+    const headStart = Date.now();
+    const result = await probeCdn(log, stream, unrestrict.download, unrestrict.host, apiResponseTimeMs, fileSize);
+    lifecycle.steps.push({
+      step: "head",
+      success: result.success,
+      durationMs: Date.now() - headStart,
+      ...(result.httpStatus != null && { httpStatus: result.httpStatus }),
+    });
+    return { ...result, lifecycle };
+  } finally {
+    // Not cancelled with the check: the item must not be left in the account.
+    const deleted = await timed("delete", () => deleteFromCache(token, itemId));
+    // 404: the item is already gone.
+    lifecycle.deleted = deleted.success || deleted.httpStatus === 404;
+    if (lifecycle.deleted) {
+      releaseLifecycleItem(pending);
+    } else {
+      handOverLifecycleItem(pending);
+      console.log(
+        JSON.stringify({ msg: "lifecycle_delete_failed", account, id: itemId, httpStatus: deleted.httpStatus })
+      );
+    }
+  }
 }
 
 /**
- * Run stream check: by hash (existing cached item in account) or by URL (real-debrid.com/d/ID).
- * No add/delete — only list, unrestrict if needed, and HEAD the stream URL.
+ * Run stream check: by hash (existing cached item in account), by URL (real-debrid.com/d/ID) or instant
+ * availability of a list of hashes — these only list, unrestrict if needed, and HEAD the stream URL. Only the
+ * opt-in lifecycle type adds (and deletes) an item in `account`. When `signal` aborts, pending requests and
+ * retries stop and the result is a failure.
  */
 export async function checkStream(
   token: string,
-  streamId: string,
-  stream: StreamDef
+  _streamId: string,
+  stream: StreamDef,
+  account: string,
+  signal?: AbortSignal
 ): Promise<StreamCheckResult> {
+  const log: AttemptLog = { attempts: [], waitedMs: 0, signal };
   try {
     if (stream.type === "download" && "url" in stream) {
-      return checkStreamByUrl(token, streamId, stream.url);
+      const result = await checkStreamByUrl(token, stream, stream.url, log);
+      return { ...result, attempts: log.attempts };
     }
     if (stream.type === "hash" && "hash" in stream) {
-      return checkStreamByHash(token, streamId, stream.hash);
+      const result = await checkStreamByHash(token, stream, stream.hash, log);
+      return { ...result, attempts: log.attempts };
+    }
+    if (stream.type === "lifecycle" && "hash" in stream) {
+      const waitSeconds = stream.waitSeconds ?? DEFAULT_LIFECYCLE_WAIT_SECONDS;
+      const result = await checkStreamLifecycle(token, account, stream, stream.hash, waitSeconds, log);
+      return { ...result, attempts: log.attempts };
+    }
+    if (stream.type === "instant" && "hashes" in stream) {
+      const result = await checkStreamInstant(token, stream.hashes, log);
+      return { ...result, attempts: log.attempts };
     }
     return {
       success: false,
@@ -281,6 +655,7 @@ export async function checkStream(
       success: false,
       apiResponseTimeMs: 0,
       errorType: classifyError(0, message),
+      attempts: log.attempts,
     };
   }
 }
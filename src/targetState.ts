@@ -0,0 +1,110 @@
+/**
+ * Derived per-target state with confirmation thresholds and flap detection. A target goes "down" after
+ * CONFIRM_DOWN_CHECKS consecutive failures and back "up" after CONFIRM_UP_CHECKS consecutive successes; it is
+ * "flapping" while its raw result changed at least FLAP_THRESHOLD times in the last FLAP_WINDOW_CHECKS checks.
+ * Tracker state is persisted to target-states.json so restarts keep confirmed states.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import {
+  getConfirmDownChecks,
+  getConfirmUpChecks,
+  getDataFilePath,
+  getFlapThreshold,
+  getFlapWindowChecks,
+} from "./config.js";
+import type { HistoryEntry, TargetState } from "./storage.js";
+import { entryTargets, isCounted, targetKey } from "./targets.js";
+
+interface Tracker {
+  /** Confirmed state, ignoring flapping. New targets start up. */
+  confirmed: "up" | "down";
+  /** Consecutive raw results contradicting `confirmed`. */
+  streak: number;
+  /** Raw results of the most recent checks, oldest first. */
+  recent: boolean[];
+}
+
+let trackers: Record<string, Tracker> | null = null;
+
+function filePath(): string {
+  return getDataFilePath("target-states.json");
+}
+
+function load(): Record<string, Tracker> {
+  if (trackers) return trackers;
+  trackers = {};
+  const path = filePath();
+  if (existsSync(path)) {
+    try {
+      const parsed = JSON.parse(readFileSync(path, "utf-8")) as Record<string, Tracker>;
+      if (parsed && typeof parsed === "object") trackers = parsed;
+    } catch {
+      // unreadable file: every target starts up again
+    }
+  }
+  return trackers;
+}
+
+function save(all: Record<string, Tracker>): void {
+  const path = filePath();
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(all), "utf-8");
+  renameSync(tmpPath, path);
+}
+
+function changes(results: boolean[]): number {
+  let n = 0;
+  for (let i = 1; i < results.length; i++) if (results[i] !== results[i - 1]) n++;
+  return n;
+}
+
+function advance(t: Tracker, success: boolean): TargetState {
+  const window = getFlapWindowChecks();
+  t.recent = [...t.recent, success].slice(-window);
+  if (success === (t.confirmed === "up")) {
+    t.streak = 0;
+  } else {
+    t.streak += 1;
+    const needed = t.confirmed === "up" ? getConfirmDownChecks() : getConfirmUpChecks();
+    if (t.streak >= needed) {
+      t.confirmed = t.confirmed === "up" ? "down" : "up";
+      t.streak = 0;
+    }
+  }
+  const threshold = getFlapThreshold();
+  if (threshold > 0 && changes(t.recent) >= threshold) return "flapping";
+  return t.confirmed;
+}
+
+/**
+ * Set `state` on every record of a check (call before the entry is stored). Records checked during maintenance
+ * and unsupported checks keep the previous state and do not advance the tracker. Never throws.
+ */
+export function applyStates(entry: HistoryEntry): void {
+  try {
+    const all = load();
+    for (const t of entryTargets(entry)) {
+      const key = `${t.kind}:${targetKey(t.account, t.target)}`;
+      const tracker = (all[key] ??= { confirmed: "up", streak: 0, recent: [] });
+      if (!isCounted(t)) {
+        t.record.state = tracker.confirmed;
+        continue;
+      }
+      t.record.state = advance(tracker, t.success);
+    }
+    save(all);
+  } catch (err) {
+    console.log(
+      JSON.stringify({
+        msg: "state_error",
+        error: err instanceof Error ? err.message : String(err),
+      })
+    );
+  }
+}
+
+/** Derived state of a record, falling back to the raw result for records written before states existed. */
+export function recordState(record: { success: boolean; state?: TargetState }): TargetState {
+  return record.state ?? (record.success ? "up" : "down");
+}
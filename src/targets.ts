@@ -0,0 +1,73 @@
+/**
+ * Flatten a HistoryEntry into one record per checked target (the API check and each stream).
+ */
+
+import { DEFAULT_ACCOUNT, entryAccount, type ApiRecord, type HistoryEntry, type StreamRecord } from "./storage.js";
+
+export type TargetKind = "api" | "stream";
+
+/** Target name used for the API check; streams use their id. */
+export const API_TARGET = "api";
+
+export interface TargetRecord {
+  account: string;
+  kind: TargetKind;
+  target: string;
+  success: boolean;
+  /** API check: responseTimeMs; stream: apiResponseTimeMs. */
+  responseTimeMs?: number;
+  ttfbMs?: number;
+  httpStatus?: number;
+  cdnHost?: string;
+  errorType?: string;
+  failureStep?: string;
+  record: ApiRecord | StreamRecord;
+}
+
+/**
+ * Target name qualified by account ("alice/tv"); targets of the default account keep their plain name, so
+ * state written before accounts existed still matches.
+ */
+export function targetKey(account: string, target: string): string {
+  return account === DEFAULT_ACCOUNT ? target : `${account}/${target}`;
+}
+
+/**
+ * Whether a record counts toward state, uptime, rollups, incidents and alerts: not checked during maintenance
+ * and not an unsupported check (endpoint disabled by Real-Debrid).
+ */
+export function isCounted(t: TargetRecord): boolean {
+  return !t.record.maintenance && !("unsupported" in t.record && t.record.unsupported);
+}
+
+export function entryTargets(entry: HistoryEntry): TargetRecord[] {
+  const account = entryAccount(entry);
+  const targets: TargetRecord[] = [];
+  if (entry.api) {
+    targets.push({
+      account,
+      kind: "api",
+      target: API_TARGET,
+      success: entry.api.success,
+      responseTimeMs: entry.api.responseTimeMs,
+      httpStatus: entry.api.httpStatus,
+      record: entry.api,
+    });
+  }
+  for (const [id, s] of Object.entries(entry.streams ?? {})) {
+    targets.push({
+      account,
+      kind: "stream",
+      target: id,
+      success: s.success,
+      responseTimeMs: s.apiResponseTimeMs,
+      ttfbMs: s.ttfbMs,
+      httpStatus: s.httpStatus,
+      cdnHost: s.cdnHost,
+      errorType: s.errorType,
+      failureStep: s.failureStep,
+      record: s,
+    });
+  }
+  return targets;
+}
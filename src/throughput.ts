@@ -0,0 +1,101 @@
+/**
+ * Throughput mode: download the start of a stream URL for a bounded number of bytes or seconds and measure
+ * sustained Mbps, time to the first MiB and stalls (gaps between chunks). Never throws.
+ */
+
+import type { ThroughputDef } from "./config.js";
+import type { StreamThroughput } from "./storage.js";
+
+const DEFAULT_BYTES = 20 * 1024 * 1024;
+const DEFAULT_SECONDS = 10;
+const DEFAULT_STALL_MS = 1000;
+const MIB = 1024 * 1024;
+
+export type ThroughputOutcome =
+  | { ok: true; result: StreamThroughput; httpStatus: number }
+  | { ok: false; httpStatus: number; error: string };
+
+/**
+ * Download from `url` until `bytes` are read or `seconds` have passed, whichever comes first. When `signal`
+ * aborts the download stops and the outcome is a failure.
+ */
+export async function measureThroughput(
+  url: string,
+  def: ThroughputDef = {},
+  targetMbps?: number,
+  signal?: AbortSignal
+): Promise<ThroughputOutcome> {
+  const maxBytes = def.bytes ?? DEFAULT_BYTES;
+  const maxMs = (def.seconds ?? DEFAULT_SECONDS) * 1000;
+  const stallMs = def.stallMs ?? DEFAULT_STALL_MS;
+  const controller = new AbortController();
+  const start = Date.now();
+  const timer = setTimeout(() => controller.abort(), maxMs);
+  const cancel = () => controller.abort();
+  signal?.addEventListener("abort", cancel, { once: true });
+  let httpStatus = 0;
+  try {
+    if (signal?.aborted) return { ok: false, httpStatus, error: "aborted" };
+    const res = await fetch(url, {
+      method: "GET",
+      headers: { Range: `bytes=0-${maxBytes - 1}` },
+      redirect: "follow",
+      signal: controller.signal,
+    });
+    httpStatus = res.status;
+    if (!res.ok || !res.body) {
+      await res.body?.cancel();
+      return { ok: false, httpStatus, error: `HTTP ${res.status}` };
+    }
+    const headersAt = Date.now();
+    const reader = res.body.getReader();
+    let bytes = 0;
+    let timeToFirstMbMs: number | undefined;
+    let stalls = 0;
+    let stalledMs = 0;
+    let lastChunkAt = headersAt;
+    const noteGap = (at: number) => {
+      const gap = at - lastChunkAt;
+      if (gap > stallMs) {
+        stalls += 1;
+        stalledMs += gap;
+      }
+    };
+    try {
+      while (bytes < maxBytes) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const now = Date.now();
+        noteGap(now);
+        lastChunkAt = now;
+        bytes += value.byteLength;
+        if (timeToFirstMbMs === undefined && bytes >= MIB) timeToFirstMbMs = now - start;
+      }
+      await reader.cancel();
+    } catch {
+      if (signal?.aborted) return { ok: false, httpStatus, error: "aborted" };
+      // time limit reached mid-download: measure what arrived, counting the final wait as a stall
+      noteGap(Date.now());
+    }
+    const durationMs = Math.max(1, Date.now() - headersAt);
+    if (bytes === 0) return { ok: false, httpStatus, error: "no data received" };
+    return {
+      ok: true,
+      httpStatus,
+      result: {
+        bytes,
+        durationMs,
+        mbps: Math.round(((bytes * 8) / durationMs / 1000) * 100) / 100,
+        ...(timeToFirstMbMs !== undefined && { timeToFirstMbMs }),
+        stalls,
+        stalledMs,
+        ...(targetMbps !== undefined && { targetMbps }),
+      },
+    };
+  } catch (err) {
+    return { ok: false, httpStatus, error: err instanceof Error ? err.message : String(err) };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", cancel);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * HTTP(S) requests timed per phase from socket events: DNS lookup, TCP connect, TLS handshake and first byte,
+ * plus the time spent on redirect hops and the resolved IP. Every hop uses a fresh connection (no keep-alive
+ * agent) so each phase is actually measured.
+ */
+
+import http from "node:http";
+import https from "node:https";
+import type { StreamTiming } from "./storage.js";
+
+const MAX_REDIRECTS = 10;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+export interface TimedResponse {
+  status: number;
+  /** URL of the last hop. */
+  url: string;
+  timing: StreamTiming;
+}
+
+interface Hop {
+  status: number;
+  location?: string;
+  totalMs: number;
+  timing: Omit<StreamTiming, "redirectMs" | "redirects">;
+}
+
+function requestOnce(
+  url: URL,
+  method: string,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  signal: AbortSignal | undefined
+): Promise<Hop> {
+  return new Promise((resolve, reject) => {
+    const start = Date.now();
+    let lookupAt: number | undefined;
+    let connectAt: number | undefined;
+    let tlsAt: number | undefined;
+    let remoteAddress: string | undefined;
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.request(url, { method, headers, agent: false, signal }, (res) => {
+      const firstByteAt = Date.now();
+      res.resume();
+      res.destroy();
+      const waitFrom = tlsAt ?? connectAt ?? lookupAt ?? start;
+      resolve({
+        status: res.statusCode ?? 0,
+        location: res.headers.location,
+        totalMs: firstByteAt - start,
+        timing: {
+          ...(lookupAt !== undefined && { dnsMs: lookupAt - start }),
+          ...(connectAt !== undefined && { connectMs: connectAt - (lookupAt ?? start) }),
+          ...(tlsAt !== undefined && connectAt !== undefined && { tlsMs: tlsAt - connectAt }),
+          firstByteMs: firstByteAt - waitFrom,
+          ...(remoteAddress && { remoteAddress }),
+        },
+      });
+    });
+    req.on("socket", (socket) => {
+      socket.once("lookup", (err, address) => {
+        lookupAt = Date.now();
+        if (!err && typeof address === "string") remoteAddress = address;
+      });
+      socket.once("connect", () => {
+        connectAt = Date.now();
+        remoteAddress = socket.remoteAddress ?? remoteAddress;
+      });
+      socket.once("secureConnect", () => {
+        tlsAt = Date.now();
+      });
+    });
+    const timer = setTimeout(() => req.destroy(new Error("timeout")), timeoutMs);
+    req.on("error", reject);
+    req.on("close", () => clearTimeout(timer));
+    req.end();
+  });
+}
+
+/**
+ * Send `method` to `url`, following redirects, and resolve at the response headers of the last hop (the body
+ * is discarded). Timings are for the last hop; earlier hops count as `redirectMs`. Rejects on network errors,
+ * when `timeoutMs` passes on any hop and when `signal` aborts.
+ */
+export async function timedRequest(
+  url: string,
+  method: string,
+  headers: Record<string, string> = {},
+  timeoutMs = 30_000,
+  signal?: AbortSignal
+): Promise<TimedResponse> {
+  let current = new URL(url);
+  let redirectMs = 0;
+  for (let redirects = 0; ; redirects++) {
+    const hop = await requestOnce(current, method, headers, timeoutMs, signal);
+    if (!REDIRECT_STATUSES.has(hop.status) || !hop.location || redirects >= MAX_REDIRECTS) {
+      return {
+        status: hop.status,
+        url: current.toString(),
+        timing: { ...hop.timing, redirectMs, redirects },
+      };
+    }
+    redirectMs += hop.totalMs;
+    current = new URL(hop.location, current);
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Uptime / SLA report over a rolling window. Check counts come from raw history where it is retained
+ * and from hourly rollups for the older part of the window; downtime comes from incidents, minus maintenance.
+ * Checks during maintenance windows and unsupported checks are not counted.
+ */
+
+import { getRawRetentionDays } from "./config.js";
+import { incidentAccount, listIncidents } from "./incidents.js";
+import { maintenanceOverlapMs } from "./maintenance.js";
+import { DAY_MS, HOUR_MS, bucketStartMs } from "./rollups.js";
+import { iterate, readRollups } from "./storage.js";
+import { entryTargets, isCounted, type TargetKind } from "./targets.js";
+
+export const UPTIME_WINDOWS = { "24h": DAY_MS, "7d": 7 * DAY_MS, "30d": 30 * DAY_MS } as const;
+
+export type UptimeWindow = keyof typeof UPTIME_WINDOWS;
+
+export interface TargetUptime {
+  account: string;
+  kind: TargetKind;
+  target: string;
+  checks: number;
+  successes: number;
+  failures: number;
+  /** successes / checks; null when there were no checks in the window. */
+  successRatio: number | null;
+  /** Incident time inside the window, minus maintenance windows; ongoing incidents count up to now. */
+  downtimeMs: number;
+  longestOutageMs: number;
+  incidents: number;
+  /** Present when an SLA target was given: successRatio * 100 >= sla. */
+  slaMet?: boolean;
+}
+
+export interface UptimeReport {
+  window: UptimeWindow;
+  from: string;
+  to: string;
+  sla?: number;
+  /** Set when the report was limited to one account. */
+  account?: string;
+  targets: TargetUptime[];
+}
+
+/**
+ * Per-target uptime for the window ending now. `streamId` limits the report to one stream ("api" for the API
+ * check) and `account` to one account; `sla` is a percentage (e.g. 99.9).
+ */
+export function uptimeReport(
+  window: UptimeWindow,
+  streamId?: string,
+  sla?: number,
+  account?: string
+): UptimeReport {
+  const nowMs = Date.now();
+  const fromMs = nowMs - UPTIME_WINDOWS[window];
+  const only = streamId?.trim() || undefined;
+  const byTarget = new Map<string, TargetUptime>();
+  const targetFor = (acct: string, kind: TargetKind, target: string): TargetUptime => {
+    const key = `${acct}|${target}`;
+    let t = byTarget.get(key);
+    if (!t) {
+      t = {
+        account: acct,
+        kind,
+        target,
+        checks: 0,
+        successes: 0,
+        failures: 0,
+        successRatio: null,
+        downtimeMs: 0,
+        longestOutageMs: 0,
+        incidents: 0,
+      };
+      byTarget.set(key, t);
+    }
+    return t;
+  };
+
+  // Raw entries older than the retention are gone; those hours are counted from rollups instead.
+  // Split on an hour boundary so no hour is counted from both sources.
+  const rawCutoffMs = nowMs - getRawRetentionDays() * DAY_MS;
+  const splitMs =
+    fromMs >= rawCutoffMs ? fromMs : bucketStartMs(rawCutoffMs, "hour") + HOUR_MS;
+  if (splitMs > fromMs) {
+    const rollups = readRollups("hour", {
+      from: new Date(bucketStartMs(fromMs, "hour")).toISOString(),
+      to: new Date(splitMs - 1).toISOString(),
+      account,
+      streamId: only,
+    });
+    for (const r of rollups) {
+      const t = targetFor(r.account, r.kind, r.target);
+      t.checks += r.checks;
+      t.successes += r.successes;
+      t.failures += r.failures;
+    }
+  }
+  for (const entry of iterate({ from: new Date(splitMs).toISOString(), account })) {
+    for (const rec of entryTargets(entry)) {
+      if (only && rec.target !== only) continue;
+      if (!isCounted(rec)) continue;
+      const t = targetFor(rec.account, rec.kind, rec.target);
+      t.checks += 1;
+      if (rec.success) t.successes += 1;
+      else t.failures += 1;
+    }
+  }
+
+  const incidents = listIncidents({
+    account,
+    target: only,
+    from: new Date(fromMs).toISOString(),
+    to: new Date(nowMs).toISOString(),
+  });
+  for (const incident of incidents) {
+    const startMs = Math.max(new Date(incident.start).getTime(), fromMs);
+    const endMs = Math.min(incident.end ? new Date(incident.end).getTime() : nowMs, nowMs);
+    if (endMs < startMs) continue;
+    const acct = incidentAccount(incident);
+    const t = targetFor(acct, incident.kind, incident.target);
+    // Incidents stay open through maintenance; that time is not downtime.
+    const downMs = endMs - startMs - maintenanceOverlapMs(incident.target, acct, startMs, endMs);
+    t.downtimeMs += downMs;
+    t.longestOutageMs = Math.max(t.longestOutageMs, downMs);
+    t.incidents += 1;
+  }
+
+  const targets = [...byTarget.values()].sort(
+    (a, b) =>
+      a.account.localeCompare(b.account) ||
+      (a.kind === b.kind ? a.target.localeCompare(b.target) : a.kind === "api" ? -1 : 1)
+  );
+  for (const t of targets) {
+    t.successRatio = t.checks > 0 ? t.successes / t.checks : null;
+    if (sla !== undefined) t.slaMet = t.successRatio !== null && t.successRatio * 100 >= sla;
+  }
+  return {
+    window,
+    from: new Date(fromMs).toISOString(),
+    to: new Date(nowMs).toISOString(),
+    ...(sla !== undefined && { sla }),
+    ...(account !== undefined && { account }),
+    targets,
+  };
+}